@@ -14,6 +14,11 @@ import MyProjectsPage from "./pages/MyProjectsPage";
 import EditProject from "./pages/EditProject";
 import Profile from "./pages/Profile";
 import ProjectDetail from "./pages/ProjectDetail";
+import AdminModeration from "./pages/AdminModeration";
+import ToolPage from "./pages/ToolPage";
+import CreatorProfile from "./pages/CreatorProfile";
+import CollectionPage from "./pages/CollectionPage";
+import ProjectAnalytics from "./pages/ProjectAnalytics";
 import NotFound from "./pages/NotFound";
 import { MessagesPage } from "./components/MessagesPage";
 import { GoogleAnalytics } from "./components/GoogleAnalytics";
@@ -34,12 +39,17 @@ const App = () => (
             <Route path="/" element={<Index />} />
             <Route path="/gallery" element={<Gallery />} />
             <Route path="/project/:id" element={<ProjectDetail />} />
+            <Route path="/tools/:slug" element={<ToolPage />} />
+            <Route path="/u/:username" element={<CreatorProfile />} />
+            <Route path="/collections/:id" element={<CollectionPage />} />
             <Route path="/submit" element={<Submit />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/my-projects" element={<MyProjectsPage />} />
+            <Route path="/my-projects/:id/analytics" element={<ProjectAnalytics />} />
             <Route path="/edit-project/:id" element={<EditProject />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/messages" element={<MessagesPage />} />
+            <Route path="/admin/moderation" element={<AdminModeration />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
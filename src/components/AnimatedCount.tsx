@@ -0,0 +1,25 @@
+import { useEffect, useRef, useState } from "react";
+
+interface AnimatedCountProps {
+  value: number;
+  className?: string;
+}
+
+// Plays a short bump whenever the value changes, but not on first render
+export const AnimatedCount = ({ value, className = '' }: AnimatedCountProps) => {
+  const previous = useRef(value);
+  const [changes, setChanges] = useState(0);
+
+  useEffect(() => {
+    if (previous.current !== value) {
+      previous.current = value;
+      setChanges(count => count + 1);
+    }
+  }, [value]);
+
+  return (
+    <span key={changes} className={`inline-block tabular-nums ${changes > 0 ? 'animate-count-bump' : ''} ${className}`}>
+      {value}
+    </span>
+  );
+};
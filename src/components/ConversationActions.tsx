@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { Bell, BellOff, Flag, MoreVertical, ShieldOff, Ban } from "lucide-react";
+
+interface ConversationActionsProps {
+  otherName: string;
+  // Mute and report need a conversation, which only exists once a message was sent
+  hasConversation: boolean;
+  muted: boolean;
+  blockedByMe: boolean;
+  onToggleMute: () => void;
+  onBlock: () => void;
+  onUnblock: () => void;
+  onReport: (reason: string) => Promise<boolean>;
+  contentClassName?: string;
+}
+
+const MAX_REASON_LENGTH = 1000;
+
+// Mute, block and report options shown in the header of a conversation
+export const ConversationActions = ({
+  otherName,
+  hasConversation,
+  muted,
+  blockedByMe,
+  onToggleMute,
+  onBlock,
+  onUnblock,
+  onReport,
+  contentClassName = ''
+}: ConversationActionsProps) => {
+  const [open, setOpen] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const [reason, setReason] = useState("");
+  const [alsoBlock, setAlsoBlock] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setReporting(false);
+      setReason("");
+      setAlsoBlock(true);
+    }
+  };
+
+  const runAndClose = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  const handleBlock = () => {
+    if (!confirm(`Block ${otherName}? Neither of you will be able to send messages until you unblock them.`)) {
+      return;
+    }
+    runAndClose(onBlock);
+  };
+
+  const submitReport = async () => {
+    if (!reason.trim()) return;
+
+    setSubmitting(true);
+    const reported = await onReport(reason);
+    setSubmitting(false);
+
+    if (!reported) return;
+    if (alsoBlock && !blockedByMe) onBlock();
+    handleOpenChange(false);
+  };
+
+  const itemClassName = "w-full justify-start gap-2 font-normal hover:bg-[#f6d365]/10";
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="flex-shrink-0 hover:bg-accent hover:text-accent-foreground transition-colors duration-200"
+          aria-label="Conversation options"
+        >
+          <MoreVertical className="h-4 w-4 sm:h-5 sm:w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className={`w-72 bg-card/95 backdrop-blur-sm border-white/20 rounded-lg p-2 ${contentClassName}`}
+      >
+        {reporting ? (
+          <div className="space-y-3 p-2">
+            <Label htmlFor="report-reason" className="text-xs uppercase tracking-wide text-muted-foreground">
+              Report conversation
+            </Label>
+            <Textarea
+              id="report-reason"
+              value={reason}
+              maxLength={MAX_REASON_LENGTH}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="What's wrong? Moderators will see this along with the recent messages."
+              className="min-h-[90px] text-sm bg-background/40 border-white/10 focus:border-[#fda085]/50"
+            />
+            {!blockedByMe && (
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={alsoBlock}
+                  onCheckedChange={(checked) => setAlsoBlock(checked === true)}
+                  className="border-white/30 data-[state=checked]:bg-[#f6d365] data-[state=checked]:border-[#f6d365]"
+                />
+                Also block {otherName}
+              </label>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setReporting(false)} disabled={submitting}>
+                Back
+              </Button>
+              <Button
+                size="sm"
+                onClick={submitReport}
+                disabled={submitting || !reason.trim()}
+                className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-gray-900"
+              >
+                {submitting ? "Sending..." : "Send report"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col">
+            {hasConversation && (
+              <Button variant="ghost" size="sm" onClick={() => runAndClose(onToggleMute)} className={itemClassName}>
+                {muted ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                {muted ? "Unmute conversation" : "Mute conversation"}
+              </Button>
+            )}
+            {hasConversation && (
+              <Button variant="ghost" size="sm" onClick={() => setReporting(true)} className={itemClassName}>
+                <Flag className="h-4 w-4" />
+                Report conversation
+              </Button>
+            )}
+            {blockedByMe ? (
+              <Button variant="ghost" size="sm" onClick={() => runAndClose(onUnblock)} className={itemClassName}>
+                <ShieldOff className="h-4 w-4" />
+                Unblock {otherName}
+              </Button>
+            ) : (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleBlock}
+                className={`${itemClassName} text-destructive hover:text-destructive`}
+              >
+                <Ban className="h-4 w-4" />
+                Block {otherName}
+              </Button>
+            )}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, XCircle, Inbox, Paperclip } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+// A message as copied into the report when it was filed
+interface ExcerptMessage {
+  sender_id: string;
+  content: string;
+  attachments: number;
+  created_at: string;
+}
+
+interface ConversationReport {
+  id: string;
+  conversation_id: string | null;
+  reporter_id: string;
+  reported_user_id: string;
+  reason: string;
+  excerpt: ExcerptMessage[];
+  created_at: string;
+}
+
+// Moderation queue for conversations reported by one of their participants
+export const ConversationReportsQueue = () => {
+  const { toast } = useToast();
+  const [reports, setReports] = useState<ConversationReport[]>([]);
+  const [usernames, setUsernames] = useState<Record<string, string>>({});
+  const [selectedReport, setSelectedReport] = useState<ConversationReport | null>(null);
+  const [note, setNote] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    setNote("");
+  }, [selectedReport?.id]);
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('conversation_reports')
+        .select('id, conversation_id, reporter_id, reported_user_id, reason, excerpt, created_at')
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching conversation reports:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load reports.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const queue = (data || []).map(report => ({
+        ...report,
+        excerpt: Array.isArray(report.excerpt) ? report.excerpt as unknown as ExcerptMessage[] : []
+      }));
+
+      const userIds = Array.from(new Set(queue.flatMap(report => [report.reporter_id, report.reported_user_id])));
+      if (userIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('user_id, username')
+          .in('user_id', userIds);
+
+        if (profilesError) {
+          console.error('Error fetching reported users:', profilesError);
+        } else {
+          setUsernames(Object.fromEntries((profiles || []).map(profile => [profile.user_id, profile.username])));
+        }
+      }
+
+      setReports(queue);
+      setSelectedReport(queue[0] || null);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const reviewReport = async (report: ConversationReport, status: 'resolved' | 'dismissed') => {
+    setUpdating(true);
+    try {
+      const { error } = await supabase.rpc('review_conversation_report', {
+        _report_id: report.id,
+        _status: status,
+        _note: note.trim() || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: status === 'resolved' ? "Report resolved" : "Report dismissed",
+        description: "The report has been closed.",
+      });
+
+      const remaining = reports.filter(r => r.id !== report.id);
+      setReports(remaining);
+      setSelectedReport(remaining[0] || null);
+    } catch (error) {
+      console.error('Error reviewing report:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the report.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const nameOf = (userId: string) => usernames[userId] || 'Unknown user';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (reports.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-gradient-to-br from-[#f6d365]/20 to-[#fda085]/20 rounded-full flex items-center justify-center mx-auto mb-6">
+          <Inbox className="h-8 w-8 text-muted-foreground/70" />
+        </div>
+        <h3 className="text-lg font-medium text-foreground mb-2">Nothing here</h3>
+        <p className="text-sm text-muted-foreground">No conversations have been reported.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+      {/* Queue */}
+      <div className="space-y-3">
+        {reports.map((report) => (
+          <Card
+            key={report.id}
+            onClick={() => setSelectedReport(report)}
+            className={`cursor-pointer border-border/30 bg-card/80 backdrop-blur-sm transition-all duration-300 ${
+              selectedReport?.id === report.id
+                ? 'border-[#fda085]/60 shadow-lg shadow-[#fda085]/10'
+                : 'hover:bg-card/90 hover:border-[#f6d365]/40'
+            }`}
+          >
+            <CardContent className="p-4">
+              <h3 className="font-medium text-foreground line-clamp-1 mb-1">{nameOf(report.reported_user_id)}</h3>
+              <p className="text-xs text-muted-foreground mb-2">
+                Reported by {nameOf(report.reporter_id)} · {new Date(report.created_at).toLocaleDateString()}
+              </p>
+              <p className="text-sm text-foreground/70 line-clamp-2">{report.reason}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Details */}
+      {selectedReport && (
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
+            <CardContent className="p-4 sm:p-6 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div className="text-sm text-foreground/70 space-y-1">
+                  <p>
+                    <span className="text-foreground">{nameOf(selectedReport.reporter_id)}</span> reported{' '}
+                    <span className="text-foreground">{nameOf(selectedReport.reported_user_id)}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(selectedReport.created_at).toLocaleString()}
+                    {!selectedReport.conversation_id && ' · conversation deleted'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => reviewReport(selectedReport, 'resolved')}
+                    disabled={updating}
+                    className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-white font-semibold"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Resolve
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => reviewReport(selectedReport, 'dismissed')}
+                    disabled={updating}
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Dismiss
+                  </Button>
+                </div>
+              </div>
+
+              <div className="rounded-lg border border-border/30 p-3 text-sm">
+                <p className="text-xs text-muted-foreground mb-1">Reason</p>
+                <p className="text-foreground whitespace-pre-line break-words">{selectedReport.reason}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="report-note" className="text-sm font-medium text-foreground">
+                  Moderator note
+                </Label>
+                <Textarea
+                  id="report-note"
+                  placeholder="Optional. What action was taken..."
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  className="border-border/30 focus:border-[#fda085]/50 focus:ring-[#fda085]/20 min-h-[80px] font-light"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
+            <CardContent className="p-4 sm:p-6">
+              <h3 className="text-sm font-medium text-foreground mb-4">Recent messages</h3>
+              {selectedReport.excerpt.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The conversation had no messages when it was reported.</p>
+              ) : (
+                <div className="space-y-3">
+                  {selectedReport.excerpt.map((message, index) => (
+                    <div key={`${message.created_at}-${index}`} className="text-sm">
+                      <div className="flex items-center gap-2 mb-0.5">
+                        <span className={`font-medium ${
+                          message.sender_id === selectedReport.reported_user_id ? 'text-[#fda085]' : 'text-foreground'
+                        }`}>
+                          {nameOf(message.sender_id)}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(message.created_at).toLocaleString()}
+                        </span>
+                        {message.attachments > 0 && (
+                          <Badge variant="secondary" className="text-xs font-light">
+                            <Paperclip className="h-3 w-3 mr-1" />
+                            {message.attachments}
+                          </Badge>
+                        )}
+                      </div>
+                      {message.content && (
+                        <p className="text-foreground/80 whitespace-pre-line break-words">{message.content}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
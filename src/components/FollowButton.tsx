@@ -0,0 +1,103 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { UserCheck, UserPlus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+interface FollowButtonProps {
+  creatorId: string;
+  creatorName: string;
+  onFollowChange?: (following: boolean) => void;
+  className?: string;
+}
+
+export const FollowButton = ({ creatorId, creatorName, onFollowChange, className = '' }: FollowButtonProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [following, setFollowing] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const checkFollowing = async () => {
+      if (!user) {
+        setFollowing(false);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('follows')
+        .select('following_id')
+        .eq('follower_id', user.id)
+        .eq('following_id', creatorId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking follow status:', error);
+        return;
+      }
+
+      setFollowing(!!data);
+    };
+
+    checkFollowing();
+  }, [user, creatorId]);
+
+  // You can't follow yourself
+  if (user?.id === creatorId) return null;
+
+  const toggleFollow = async () => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: `Please sign in to follow ${creatorName}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    const { error } = following
+      ? await supabase
+          .from('follows')
+          .delete()
+          .eq('follower_id', user.id)
+          .eq('following_id', creatorId)
+      : await supabase
+          .from('follows')
+          .insert({ follower_id: user.id, following_id: creatorId });
+
+    setSaving(false);
+
+    if (error) {
+      console.error('Error updating follow:', error);
+      toast({
+        title: "Error",
+        description: following ? "Failed to unfollow. Please try again." : "Failed to follow. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setFollowing(!following);
+    onFollowChange?.(!following);
+  };
+
+  return (
+    <Button
+      onClick={toggleFollow}
+      disabled={saving}
+      variant={following ? "outline" : "default"}
+      size="sm"
+      className={`${className} ${
+        following
+          ? 'border-[#f6d365]/30 text-[#f6d365] hover:border-[#fda085]/50 hover:text-[#fda085] bg-transparent'
+          : 'bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-gray-900 font-medium'
+      } transition-all duration-300`}
+    >
+      {following ? <UserCheck className="h-4 w-4 mr-2" /> : <UserPlus className="h-4 w-4 mr-2" />}
+      {following ? 'Following' : 'Follow'}
+    </Button>
+  );
+};
@@ -0,0 +1,137 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Filter } from "lucide-react";
+import type { GalleryQuery, ToolMode } from "@/lib/galleryQuery";
+
+export interface ToolCount {
+  tool: string;
+  project_count: number;
+}
+
+interface GalleryFiltersProps {
+  query: GalleryQuery;
+  onQueryChange: (changes: Partial<GalleryQuery>) => void;
+  toolCounts: ToolCount[];
+  triggerClassName?: string;
+}
+
+export const GalleryFilters = ({ query, onQueryChange, toolCounts, triggerClassName = '' }: GalleryFiltersProps) => {
+  const activeCount = query.tools.length + (query.from || query.to ? 1 : 0) + (query.hasScreenshots ? 1 : 0);
+
+  const toggleTool = (tool: string) => {
+    onQueryChange({
+      tools: query.tools.includes(tool)
+        ? query.tools.filter(t => t !== tool)
+        : [...query.tools, tool]
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={`${triggerClassName} justify-start bg-card/60 backdrop-blur-sm border-white/10 hover:border-[#f6d365]/30 hover:bg-card/80 rounded-lg h-10 text-sm font-normal transition-all duration-300`}
+        >
+          <Filter className="h-4 w-4 text-muted-foreground mr-1" />
+          Filters
+          {activeCount > 0 && (
+            <span className="ml-auto px-1.5 min-w-[1.25rem] rounded-full bg-[#f6d365]/20 text-[#f6d365] text-xs border border-[#f6d365]/30">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 bg-card/95 backdrop-blur-sm border-white/20 rounded-lg p-4 space-y-4">
+        {/* Tools */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs uppercase tracking-wide text-muted-foreground">AI tools</Label>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={query.toolMode}
+              onValueChange={(value) => value && onQueryChange({ toolMode: value as ToolMode })}
+            >
+              <ToggleGroupItem value="any" className="h-7 px-2 text-xs data-[state=on]:bg-[#f6d365]/20 data-[state=on]:text-[#f6d365]">
+                Any
+              </ToggleGroupItem>
+              <ToggleGroupItem value="all" className="h-7 px-2 text-xs data-[state=on]:bg-[#f6d365]/20 data-[state=on]:text-[#f6d365]">
+                All
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+            {toolCounts.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No tools yet</p>
+            ) : (
+              toolCounts.map(({ tool, project_count }) => {
+                const checked = query.tools.includes(tool);
+                return (
+                  <label
+                    key={tool}
+                    className={`flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-[#f6d365]/10 ${
+                      project_count === 0 && !checked ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <Checkbox checked={checked} onCheckedChange={() => toggleTool(tool)} />
+                    <span className="flex-1 truncate">{tool}</span>
+                    <span className="text-xs text-muted-foreground">{project_count}</span>
+                  </label>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        {/* Date range */}
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wide text-muted-foreground">Shared between</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={query.from ?? ''}
+              max={query.to ?? undefined}
+              onChange={(e) => onQueryChange({ from: e.target.value || null })}
+              className="h-9 bg-card/60 border-white/10 text-xs"
+            />
+            <span className="text-xs text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={query.to ?? ''}
+              min={query.from ?? undefined}
+              onChange={(e) => onQueryChange({ to: e.target.value || null })}
+              className="h-9 bg-card/60 border-white/10 text-xs"
+            />
+          </div>
+        </div>
+
+        {/* Screenshots */}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="has-screenshots" className="text-sm">Has screenshots</Label>
+          <Switch
+            id="has-screenshots"
+            checked={query.hasScreenshots}
+            onCheckedChange={(checked) => onQueryChange({ hasScreenshots: checked })}
+          />
+        </div>
+
+        {activeCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full text-muted-foreground hover:text-[#fda085]"
+            onClick={() => onQueryChange({ tools: [], toolMode: 'any', from: null, to: null, hasScreenshots: false })}
+          >
+            Clear filters
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -2,28 +2,128 @@
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { Search, Filter, ArrowLeft } from "lucide-react";
+import { Search, ArrowLeft, ArrowUpDown, X } from "lucide-react";
+import { GalleryFilters, type ToolCount } from "./GalleryFilters";
+import type { GalleryFeed, GalleryQuery, GallerySort } from "@/lib/galleryQuery";
 
 interface GalleryHeaderProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
-  selectedTool: string;
-  onToolChange: (tool: string) => void;
-  availableTools: string[];
+  query: GalleryQuery;
+  onQueryChange: (changes: Partial<GalleryQuery>) => void;
+  toolCounts: ToolCount[];
 }
 
+const sortOptions = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'trending', label: 'Trending' },
+  { value: 'loved', label: 'Most loved' },
+  { value: 'reactions', label: 'Most reactions' },
+  { value: 'views', label: 'Most viewed' }
+];
+
 export const GalleryHeader = ({ 
   searchQuery, 
   onSearchChange, 
-  selectedTool, 
-  onToolChange, 
-  availableTools 
+  query,
+  onQueryChange,
+  toolCounts
 }: GalleryHeaderProps) => {
   const navigate = useNavigate();
   const { user } = useAuth();
 
+  // Search results are ranked by relevance, so sorting only applies to browsing
+  const sortSelect = (triggerClassName: string) => (
+    <Select
+      value={searchQuery ? 'relevance' : query.sort}
+      onValueChange={(sort) => onQueryChange({ sort: sort as GallerySort })}
+      disabled={!!searchQuery}
+    >
+      <SelectTrigger className={`${triggerClassName} bg-card/60 backdrop-blur-sm border-white/10 focus:border-[#f6d365]/30 focus:ring-[#f6d365]/10 rounded-lg h-10 text-sm transition-all duration-300`}>
+        <ArrowUpDown className="h-4 w-4 text-muted-foreground mr-1" />
+        <SelectValue placeholder="Newest" />
+      </SelectTrigger>
+      <SelectContent className="bg-card/95 backdrop-blur-sm border-white/20 rounded-lg">
+        {searchQuery && (
+          <SelectItem value="relevance" className="hover:bg-[#f6d365]/10 focus:bg-[#f6d365]/10 rounded-lg">
+            Best match
+          </SelectItem>
+        )}
+        {sortOptions.map((option) => (
+          <SelectItem
+            key={option.value}
+            value={option.value}
+            className="hover:bg-[#f6d365]/10 focus:bg-[#f6d365]/10 rounded-lg"
+          >
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  // Only signed-in users follow anyone, so the feed switch is hidden otherwise
+  const feedTabs = user && (
+    <Tabs value={query.feed} onValueChange={(feed) => onQueryChange({ feed: feed as GalleryFeed })}>
+      <TabsList className="bg-card/60 backdrop-blur-sm border border-white/10 rounded-lg">
+        <TabsTrigger value="all" className="rounded-md data-[state=active]:bg-[#f6d365]/20 data-[state=active]:text-[#f6d365]">
+          All projects
+        </TabsTrigger>
+        <TabsTrigger value="following" className="rounded-md data-[state=active]:bg-[#f6d365]/20 data-[state=active]:text-[#f6d365]">
+          Following
+        </TabsTrigger>
+      </TabsList>
+    </Tabs>
+  );
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const dateLabel = query.from && query.to
+    ? `${formatDate(query.from)} – ${formatDate(query.to)}`
+    : query.from
+      ? `Since ${formatDate(query.from)}`
+      : query.to
+        ? `Until ${formatDate(query.to)}`
+        : null;
+
+  const hasActiveFilters = Boolean(searchQuery || query.tools.length || dateLabel || query.hasScreenshots);
+
+  const filterChip = (key: string, label: string, onRemove: () => void, accent: 'yellow' | 'orange') => (
+    <div
+      key={key}
+      className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs border ${
+        accent === 'yellow'
+          ? 'bg-[#f6d365]/20 text-[#f6d365] border-[#f6d365]/30'
+          : 'bg-[#fda085]/20 text-[#fda085] border-[#fda085]/30'
+      }`}
+    >
+      {label}
+      <button type="button" onClick={onRemove} className="opacity-70 hover:opacity-100" aria-label={`Remove ${label}`}>
+        <X className="h-3 w-3" />
+      </button>
+    </div>
+  );
+
+  const activeFilterChips = (
+    <div className="flex flex-wrap gap-2">
+      {searchQuery && filterChip('search', `"${searchQuery}"`, () => onSearchChange(''), 'yellow')}
+      {query.tools.map((tool, index) =>
+        filterChip(
+          `tool-${tool}`,
+          index > 0 ? `${query.toolMode === 'all' ? 'and' : 'or'} ${tool}` : tool,
+          () => onQueryChange({ tools: query.tools.filter(t => t !== tool) }),
+          'orange'
+        )
+      )}
+      {dateLabel && filterChip('date', dateLabel, () => onQueryChange({ from: null, to: null }), 'orange')}
+      {query.hasScreenshots && filterChip('screenshots', 'Has screenshots', () => onQueryChange({ hasScreenshots: false }), 'orange')}
+    </div>
+  );
+
   return (
     <div className="mb-4 sm:mb-6 lg:mb-8">
       {/* Mobile Header Bar */}
@@ -48,6 +148,8 @@ export const GalleryHeader = ({
           </div>
           {/* </div> */}
 
+          {feedTabs && <div className="flex justify-center mb-3">{feedTabs}</div>}
+
           {/* Mobile Compact Search and Filter */}
           <div className="flex gap-2">
             {/* Search */}
@@ -62,41 +164,17 @@ export const GalleryHeader = ({
             </div>
 
             {/* Filter */}
-            <Select value={selectedTool} onValueChange={onToolChange}>
-              <SelectTrigger className="w-32 bg-card/60 backdrop-blur-sm border-white/10 focus:border-[#f6d365]/30 focus:ring-[#f6d365]/10 rounded-lg h-10 text-sm transition-all duration-300">
-                <Filter className="h-4 w-4 text-muted-foreground mr-1" />
-                <SelectValue placeholder="All" />
-              </SelectTrigger>
-              <SelectContent className="bg-card/95 backdrop-blur-sm border-white/20 rounded-lg">
-                {availableTools.map((tool) => (
-                  <SelectItem 
-                    key={tool} 
-                    value={tool}
-                    className="hover:bg-[#f6d365]/10 focus:bg-[#f6d365]/10 rounded-lg"
-                  >
-                    {tool}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <GalleryFilters query={query} onQueryChange={onQueryChange} toolCounts={toolCounts} triggerClassName="w-32" />
+
+            {/* Sort */}
+            {sortSelect('w-32')}
           </div>
 
           {/* Active Filters */}
-          {(searchQuery || selectedTool !== 'All') && (
+          {hasActiveFilters && (
             <div className="flex items-center gap-2 pt-2">
               <span className="text-xs text-muted-foreground">Active:</span>
-              <div className="flex flex-wrap gap-2">
-                {searchQuery && (
-                  <div className="px-2 py-1 bg-[#f6d365]/20 text-[#f6d365] rounded-full text-xs border border-[#f6d365]/30">
-                    "{searchQuery}"
-                  </div>
-                )}
-                {selectedTool !== 'All' && (
-                  <div className="px-2 py-1 bg-[#fda085]/20 text-[#fda085] rounded-full text-xs border border-[#fda085]/30">
-                    {selectedTool}
-                  </div>
-                )}
-              </div>
+              {activeFilterChips}
             </div>
           )}
         </div>
@@ -119,7 +197,9 @@ export const GalleryHeader = ({
 
       {/* Desktop Compact Search and Filter Section */}
       <div className="hidden md:block container mx-auto px-4 sm:px-6 lg:px-8 mb-4 sm:mb-6">
-        <div className="flex items-center justify-center gap-3 max-w-md mx-auto">
+        {feedTabs && <div className="flex justify-center mb-4">{feedTabs}</div>}
+
+        <div className="flex items-center justify-center gap-3 max-w-2xl mx-auto">
           {/* Search */}
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -132,41 +212,17 @@ export const GalleryHeader = ({
           </div>
 
           {/* Filter */}
-          <Select value={selectedTool} onValueChange={onToolChange}>
-            <SelectTrigger className="w-36 bg-card/60 backdrop-blur-sm border-white/10 focus:border-[#f6d365]/30 focus:ring-[#f6d365]/10 rounded-lg h-10 text-sm transition-all duration-300">
-              <Filter className="h-4 w-4 text-muted-foreground mr-2" />
-              <SelectValue placeholder="All tools" />
-            </SelectTrigger>
-            <SelectContent className="bg-card/95 backdrop-blur-sm border-white/20 rounded-lg">
-              {availableTools.map((tool) => (
-                <SelectItem 
-                  key={tool} 
-                  value={tool}
-                  className="hover:bg-[#f6d365]/10 focus:bg-[#f6d365]/10 rounded-lg"
-                >
-                  {tool}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <GalleryFilters query={query} onQueryChange={onQueryChange} toolCounts={toolCounts} triggerClassName="w-36" />
+
+          {/* Sort */}
+          {sortSelect('w-44')}
         </div>
 
         {/* Active Filters - Only show when active */}
-        {(searchQuery || selectedTool !== 'All') && (
+        {hasActiveFilters && (
           <div className="flex items-center justify-center gap-2 mt-3 text-xs text-muted-foreground">
             <span className="whitespace-nowrap">Active filters:</span>
-            <div className="flex flex-wrap gap-2">
-              {searchQuery && (
-                <div className="px-2 py-1 bg-[#f6d365]/20 text-[#f6d365] rounded-full text-xs border border-[#f6d365]/30">
-                  "{searchQuery}"
-                </div>
-              )}
-              {selectedTool !== 'All' && (
-                <div className="px-2 py-1 bg-[#fda085]/20 text-[#fda085] rounded-full text-xs border border-[#fda085]/30">
-                  {selectedTool}
-                </div>
-              )}
-            </div>
+            {activeFilterChips}
           </div>
         )}
       </div>
@@ -0,0 +1,23 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders search snippets from search_projects, where matches are wrapped in ⟦ ⟧
+export const HighlightedText = ({ text, className }: HighlightedTextProps) => {
+  const parts = text.split(/(⟦[^⟧]*⟧)/g).filter(Boolean);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.startsWith('⟦') && part.endsWith('⟧') ? (
+          <mark key={index} className="bg-[#f6d365]/30 text-inherit rounded-sm px-0.5">
+            {part.slice(1, -1)}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </span>
+  );
+};
@@ -7,6 +7,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Upload, X, Eye, Image as ImageIcon } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { IMAGE_TYPES, imageUploadProblem } from "@/lib/uploads";
 
 interface ImageUploadProps {
   screenshots: string[];
@@ -37,25 +38,10 @@ export const ImageUpload = ({ screenshots, onScreenshotsChange, maxImages = 5 }:
     console.log('User authenticated:', user.id);
     console.log('File details:', { name: file.name, size: file.size, type: file.type });
 
-    // Validate file size
-    if (file.size > 5 * 1024 * 1024) {
-      console.log('File too large:', file.size);
-      toast({
-        title: "File too large",
-        description: "Please select images smaller than 5MB",
-        variant: "destructive",
-      });
-      return null;
-    }
-
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      console.log('Invalid file type:', file.type);
-      toast({
-        title: "Invalid file type",
-        description: "Please select an image file",
-        variant: "destructive",
-      });
+    const problem = imageUploadProblem(file);
+    if (problem) {
+      console.log('Invalid file:', { size: file.size, type: file.type });
+      toast({ ...problem, variant: "destructive" });
       return null;
     }
 
@@ -138,12 +124,9 @@ export const ImageUpload = ({ screenshots, onScreenshotsChange, maxImages = 5 }:
     const newScreenshots = [...screenshots];
 
     for (const file of Array.from(files)) {
-      if (file.size > 5 * 1024 * 1024) {
-        toast({
-          title: "File too large",
-          description: "Please select images smaller than 5MB",
-          variant: "destructive",
-        });
+      const problem = imageUploadProblem(file);
+      if (problem) {
+        toast({ ...problem, variant: "destructive" });
         continue;
       }
       console.log('uploading file', file)
@@ -225,7 +208,7 @@ export const ImageUpload = ({ screenshots, onScreenshotsChange, maxImages = 5 }:
       <Input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={IMAGE_TYPES.join(",")}
         multiple
         onChange={handleFileSelect}
         className="hidden"
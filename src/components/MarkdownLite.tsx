@@ -0,0 +1,54 @@
+import { Fragment, type ReactNode } from "react";
+
+interface MarkdownLiteProps {
+  text: string;
+  className?: string;
+}
+
+// `code`, **bold**, *italic* or _italic_, [label](https://...) and bare http(s) URLs
+const INLINE_PATTERN = /(`[^`\n]+`|\*\*[^*\n]+\*\*|\*[^*\n]+\*|_[^_\n]+_|\[[^\]\n]+\]\(https?:\/\/[^\s)]+\)|https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+const linkClassName = "text-[#fda085] hover:text-[#f6d365] underline underline-offset-2 break-words";
+
+const renderInline = (text: string): ReactNode[] =>
+  text.split(INLINE_PATTERN).filter(Boolean).map((part, index) => {
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={index} className="px-1 py-0.5 rounded bg-muted/60 text-[0.9em] font-mono">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={index} className="font-semibold text-foreground">{part.slice(2, -2)}</strong>;
+    }
+    if ((part.startsWith('*') && part.endsWith('*') || part.startsWith('_') && part.endsWith('_')) && part.length > 2) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+
+    const link = part.match(/^\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)$/);
+    if (link) {
+      return <a key={index} href={link[2]} target="_blank" rel="noopener noreferrer nofollow" className={linkClassName}>{link[1]}</a>;
+    }
+    if (/^https?:\/\//.test(part)) {
+      return <a key={index} href={part} target="_blank" rel="noopener noreferrer nofollow" className={linkClassName}>{part}</a>;
+    }
+
+    return <Fragment key={index}>{part}</Fragment>;
+  });
+
+// A small, safe subset of markdown for user-written text; everything else renders as plain text
+export const MarkdownLite = ({ text, className }: MarkdownLiteProps) => {
+  const paragraphs = text.trim().split(/\n{2,}/);
+
+  return (
+    <div className={className}>
+      {paragraphs.map((paragraph, index) => (
+        <p key={index} className="mb-2 last:mb-0">
+          {paragraph.split('\n').map((line, lineIndex) => (
+            <Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {renderInline(line)}
+            </Fragment>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+};
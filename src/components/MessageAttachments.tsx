@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { getAttachmentUrls, type MessageAttachment } from '@/lib/conversations';
+import { formatFileSize, isImageType } from '@/lib/uploads';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  // Files of an unsent message, previewed from the device until they're uploaded
+  files?: File[];
+  isOwn: boolean;
+}
+
+interface AttachmentItem {
+  key: string;
+  name: string;
+  type: string;
+  size: number;
+  url?: string;
+}
+
+const useLocalPreviews = (files: File[]) => {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    const created = files.map(file => isImageType(file.type) ? URL.createObjectURL(file) : '');
+    setUrls(created);
+    return () => {
+      created.forEach(url => url && URL.revokeObjectURL(url));
+    };
+  }, [files]);
+
+  return urls;
+};
+
+// Images show inline and open full size; other files are links. Saved attachments are
+// private, so every link is a short-lived signed URL.
+export function MessageAttachments({ attachments, files = [], isOwn }: MessageAttachmentsProps) {
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+  const localUrls = useLocalPreviews(files);
+  const pathsKey = attachments.map(attachment => attachment.path).join('|');
+
+  useEffect(() => {
+    if (!pathsKey) return;
+
+    let cancelled = false;
+    getAttachmentUrls(pathsKey.split('|'))
+      .then(urls => {
+        if (!cancelled) setSignedUrls(urls);
+      })
+      .catch(error => {
+        console.error('Error loading attachments:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pathsKey]);
+
+  const items: AttachmentItem[] = [
+    ...attachments.map(attachment => ({ key: attachment.path, ...attachment, url: signedUrls[attachment.path] })),
+    ...files.map((file, index) => ({
+      key: `local-${index}-${file.name}`,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      url: localUrls[index] || undefined
+    }))
+  ];
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className={`flex flex-col gap-2 ${isOwn ? 'items-end' : 'items-start'}`}>
+      {items.map(item => {
+        if (isImageType(item.type)) {
+          return item.url ? (
+            <a key={item.key} href={item.url} target="_blank" rel="noopener noreferrer" className="block">
+              <img
+                src={item.url}
+                alt={item.name}
+                className="max-h-60 max-w-full rounded-xl border border-border/30 object-cover shadow-sm"
+              />
+            </a>
+          ) : (
+            <div
+              key={item.key}
+              className="flex h-32 w-48 items-center justify-center rounded-xl border border-border/30 bg-muted/30"
+            >
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          );
+        }
+
+        const content = (
+          <>
+            <FileText className="h-5 w-5 flex-shrink-0 text-[#fda085]" />
+            <span className="min-w-0">
+              <span className="block truncate text-sm font-medium">{item.name}</span>
+              <span className="block text-xs text-muted-foreground">{formatFileSize(item.size)}</span>
+            </span>
+          </>
+        );
+        const className = 'flex max-w-full items-center gap-3 rounded-xl border border-border/30 bg-card/60 px-3 py-2 text-card-foreground backdrop-blur-sm';
+
+        return item.url ? (
+          <a
+            key={item.key}
+            href={item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`${className} hover:border-[#fda085]/60 transition-colors`}
+          >
+            {content}
+          </a>
+        ) : (
+          <div key={item.key} className={className}>
+            {content}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Send, Check, CheckCheck, Clock, AlertCircle, Paperclip, X } from 'lucide-react';
+import { MessageAttachments } from '@/components/MessageAttachments';
+import { toast } from '@/hooks/use-toast';
+import type { ChatMessage } from '@/hooks/use-conversation';
+import { MAX_ATTACHMENTS, messageAttachments } from '@/lib/conversations';
+import { ATTACHMENT_ACCEPT, attachmentUploadProblem } from '@/lib/uploads';
+
+interface MessageThreadProps {
+  messages: ChatMessage[];
+  currentUserId?: string;
+  otherName: string;
+  otherAvatarUrl?: string | null;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  otherTyping: boolean;
+  onTyping: () => void;
+  onLoadOlder: () => void;
+  onSend: (content: string, files: File[]) => void;
+  onRetry: (messageId: string) => void;
+  onDiscard: (messageId: string) => void;
+  // Either user blocked the other; the composer is replaced by a notice
+  blocked: boolean;
+  blockedByMe: boolean;
+}
+
+// Start fetching the previous page a little before the top is reached
+const LOAD_OLDER_THRESHOLD_PX = 80;
+
+const formatTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const now = new Date();
+  const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
+
+  if (diffInHours < 24) {
+    return date.toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  } else {
+    return date.toLocaleDateString([], {
+      month: 'short',
+      day: 'numeric'
+    });
+  }
+};
+
+// Message list and composer shared by the message dialog and the messages page
+export function MessageThread({
+  messages,
+  currentUserId,
+  otherName,
+  otherAvatarUrl,
+  hasOlder,
+  loadingOlder,
+  otherTyping,
+  onTyping,
+  onLoadOlder,
+  onSend,
+  onRetry,
+  onDiscard,
+  blocked,
+  blockedByMe
+}: MessageThreadProps) {
+  const [newMessage, setNewMessage] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Distance from the bottom to restore once an older page has been prepended
+  const restoreOffsetRef = useRef<number | null>(null);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+
+  const lastMessageId = messages[messages.length - 1]?.id;
+  // "Seen" goes under the newest of the user's messages the other person has read
+  const lastSeenMessage = [...messages].reverse().find(message => message.sender_id === currentUserId && message.read_at);
+
+  // Older pages keep the view where it was; new messages at the end scroll into view
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    if (restoreOffsetRef.current !== null) {
+      el.scrollTop = el.scrollHeight - restoreOffsetRef.current;
+      restoreOffsetRef.current = null;
+    }
+
+    if (lastMessageId !== lastMessageIdRef.current) {
+      const isFirstPage = lastMessageIdRef.current === undefined;
+      lastMessageIdRef.current = lastMessageId;
+      el.scrollTo({ top: el.scrollHeight, behavior: isFirstPage ? 'auto' : 'smooth' });
+    }
+  }, [messages, lastMessageId]);
+
+  useEffect(() => {
+    if (!otherTyping) return;
+    const el = scrollRef.current;
+    el?.scrollTo({ top: el.scrollHeight, behavior: 'smooth' });
+  }, [otherTyping]);
+
+  useEffect(() => {
+    if (!loadingOlder) restoreOffsetRef.current = null;
+  }, [loadingOlder]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el || !hasOlder || loadingOlder || el.scrollTop > LOAD_OLDER_THRESHOLD_PX) return;
+
+    restoreOffsetRef.current = el.scrollHeight - el.scrollTop;
+    onLoadOlder();
+  };
+
+  const canSend = !!newMessage.trim() || files.length > 0;
+
+  const sendMessage = () => {
+    if (!canSend) return;
+    onSend(newMessage, files);
+    setNewMessage('');
+    setFiles([]);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const accepted = selected.filter(file => {
+      const problem = attachmentUploadProblem(file);
+      if (problem) toast({ ...problem, variant: "destructive" });
+      return !problem;
+    });
+
+    if (files.length + accepted.length > MAX_ATTACHMENTS) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files to a message`,
+        variant: "destructive"
+      });
+    }
+    setFiles(prev => [...prev, ...accepted].slice(0, MAX_ATTACHMENTS));
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      sendMessage();
+    }
+  };
+
+  return (
+    <>
+      {/* Messages */}
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 min-h-0 overflow-y-auto px-4 sm:px-6 py-4 sm:py-6">
+        <div className="space-y-3 max-w-4xl mx-auto">
+          {loadingOlder && (
+            <div className="flex justify-center py-2">
+              <div className="w-5 h-5 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+            </div>
+          )}
+          {!hasOlder && messages.length > 0 && (
+            <p className="text-center text-xs text-muted-foreground/70 py-2">Start of the conversation</p>
+          )}
+          {messages.map((message, index) => {
+            const isOwn = message.sender_id === currentUserId;
+            const attachments = messageAttachments(message);
+            const hasAttachments = attachments.length > 0 || !!message.files?.length;
+            const showAvatar = !isOwn && (index === 0 || messages[index - 1]?.sender_id !== message.sender_id);
+            const showTime = !!message.status ||
+              index === messages.length - 1 ||
+              messages[index + 1]?.sender_id !== message.sender_id ||
+              new Date(messages[index + 1]?.created_at).getTime() - new Date(message.created_at).getTime() > 300000; // 5 minutes
+
+            return (
+              <div
+                key={message.id}
+                className={`flex items-end gap-2 sm:gap-3 ${isOwn ? 'justify-end' : 'justify-start'}`}
+              >
+                {/* Avatar for received messages */}
+                {!isOwn && (
+                  <div className="flex-shrink-0">
+                    {showAvatar ? (
+                      <Avatar className="h-8 w-8 sm:h-10 sm:w-10">
+                        <AvatarImage src={otherAvatarUrl || ''} />
+                        <AvatarFallback className="bg-gradient-to-br from-[#f6d365] via-[#fda085] to-[#f6d365] text-white text-xs sm:text-sm">
+                          {otherName[0]?.toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                    ) : (
+                      <div className="h-8 w-8 sm:h-10 sm:w-10" />
+                    )}
+                  </div>
+                )}
+
+                {/* Message bubble */}
+                <div className={`flex flex-col gap-1.5 max-w-[75%] sm:max-w-[70%] lg:max-w-[65%] min-w-0 ${isOwn ? 'items-end' : 'items-start'}`}>
+                  {hasAttachments && (
+                    <div className={`max-w-full ${message.status === 'sending' ? 'opacity-70' : ''}`}>
+                      <MessageAttachments attachments={attachments} files={message.files} isOwn={isOwn} />
+                    </div>
+                  )}
+
+                  {message.content && (
+                    <div
+                      onClick={message.status === 'failed' ? () => onRetry(message.id) : undefined}
+                      className={`px-4 py-2.5 sm:px-5 sm:py-3 rounded-2xl shadow-sm max-w-full ${
+                        isOwn
+                          ? 'bg-primary/90 text-primary-foreground rounded-br-md border border-primary/20'
+                          : 'bg-card/60 text-card-foreground rounded-bl-md border border-border/30 backdrop-blur-sm'
+                      } ${message.status === 'sending' ? 'opacity-70' : ''} ${
+                        message.status === 'failed' ? 'cursor-pointer border-destructive/60' : ''
+                      }`}
+                    >
+                      <p className="text-sm sm:text-base leading-relaxed whitespace-pre-wrap break-words overflow-hidden word-wrap">
+                        {message.content}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Message status and time */}
+                  {showTime && (
+                    <div className={`flex items-center gap-1 px-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                      {message.status === 'failed' ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => onRetry(message.id)}
+                            className="flex items-center gap-1 text-xs text-destructive hover:underline"
+                          >
+                            <AlertCircle className="h-3 w-3 sm:h-4 sm:w-4" />
+                            Not sent · Retry
+                          </button>
+                          <span className="text-xs text-muted-foreground/70">·</span>
+                          <button
+                            type="button"
+                            onClick={() => onDiscard(message.id)}
+                            className="text-xs text-muted-foreground hover:underline"
+                          >
+                            Discard
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          {isOwn && (
+                            <div className="flex items-center">
+                              {message.status === 'sending' ? (
+                                <Clock className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground/60" />
+                              ) : message.is_read ? (
+                                <CheckCheck className="h-3 w-3 sm:h-4 sm:w-4 text-primary/70" />
+                              ) : (
+                                <Check className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground/60" />
+                              )}
+                            </div>
+                          )}
+                          <span className="text-xs text-muted-foreground/70">
+                            {formatTime(message.created_at)}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {message.id === lastSeenMessage?.id && message.read_at && (
+                    <span className="px-1 text-xs text-muted-foreground/70">
+                      Seen {formatTime(message.read_at)}
+                    </span>
+                  )}
+                </div>
+
+                {/* Spacer for sent messages */}
+                {isOwn && <div className="w-10 sm:w-12 flex-shrink-0" />}
+              </div>
+            );
+          })}
+
+          {otherTyping && (
+            <div className="flex items-end gap-2 sm:gap-3 justify-start" aria-live="polite">
+              <div className="h-8 w-8 sm:h-10 sm:w-10 flex-shrink-0" />
+              <div className="flex items-center gap-1 px-4 py-3 rounded-2xl rounded-bl-md bg-card/60 border border-border/30 backdrop-blur-sm">
+                <span className="sr-only">{otherName} is typing</span>
+                {[0, 150, 300].map(delay => (
+                  <span
+                    key={delay}
+                    className="h-1.5 w-1.5 rounded-full bg-muted-foreground/70 animate-bounce"
+                    style={{ animationDelay: `${delay}ms` }}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Message Input */}
+      <div className="relative p-4 sm:p-6 bg-card/80 backdrop-blur-md border-t border-border/50">
+        {blocked ? (
+          <p className="max-w-4xl mx-auto text-center text-sm text-muted-foreground">
+            {blockedByMe
+              ? `You blocked ${otherName}. Unblock them to send messages.`
+              : "You can't reply to this conversation."}
+          </p>
+        ) : (
+          <div className="max-w-4xl mx-auto">
+            {files.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-3">
+                {files.map((file, index) => (
+                  <span
+                    key={`${index}-${file.name}`}
+                    className="flex items-center gap-1.5 max-w-[200px] rounded-full border border-border/50 bg-background px-3 py-1 text-xs"
+                  >
+                    <Paperclip className="h-3 w-3 flex-shrink-0 text-[#fda085]" />
+                    <span className="truncate">{file.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                      className="flex-shrink-0 text-muted-foreground hover:text-foreground"
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-3 sm:gap-4 items-end">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={files.length >= MAX_ATTACHMENTS}
+                className="h-11 w-11 sm:h-12 sm:w-12 rounded-full text-muted-foreground hover:text-foreground flex-shrink-0"
+                aria-label="Attach files"
+              >
+                <Paperclip className="h-4 w-4 sm:h-5 sm:w-5" />
+              </Button>
+              <div className="flex-1 relative">
+                <Textarea
+                  value={newMessage}
+                  onChange={(e) => {
+                    setNewMessage(e.target.value);
+                    if (e.target.value.trim()) onTyping();
+                  }}
+                  onKeyPress={handleKeyPress}
+                  placeholder="Type your message..."
+                  className="min-h-[44px] sm:min-h-[48px] max-h-[120px] resize-none rounded-2xl border-border bg-background focus:ring-2 focus:ring-[#fda085] focus:border-transparent pr-12 text-sm sm:text-base"
+                  rows={1}
+                />
+              </div>
+              <Button
+                onClick={sendMessage}
+                disabled={!canSend}
+                size="icon"
+                className="h-11 w-11 sm:h-12 sm:w-12 rounded-full bg-primary/80 hover:bg-primary text-primary-foreground shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                <Send className="h-4 w-4 sm:h-5 sm:w-5" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { MessageSquare, ArrowLeft } from 'lucide-react';
+import { MessageSquare, ArrowLeft, BellOff } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { MessageInterface } from './MessageInterface';
@@ -14,6 +14,8 @@ interface ConversationWithDetails {
   project_id: string;
   creator_id: string;
   sender_id: string;
+  creator_muted: boolean;
+  sender_muted: boolean;
   created_at: string;
   updated_at: string;
   project: {
@@ -83,14 +85,6 @@ export function MessagesPage({ onClose }: MessagesPageProps) {
       })
       .subscribe();
 
-    // Listen for conversation merges
-    const handleConversationMerged = () => {
-      console.log('Conversation merged, refreshing list');
-      loadConversations();
-    };
-
-    window.addEventListener('conversation-merged', handleConversationMerged);
-
     // Fallback polling for conversation updates
     const startPolling = () => {
       pollInterval = setInterval(() => {
@@ -103,10 +97,14 @@ export function MessagesPage({ onClose }: MessagesPageProps) {
 
     const pollTimeoutId = setTimeout(startPolling, 5000);
 
+    // Muting happens inside an open conversation and doesn't touch messages
+    const handleMuted = () => loadConversations();
+    window.addEventListener('conversation-muted', handleMuted);
+
     return () => {
+      window.removeEventListener('conversation-muted', handleMuted);
       clearTimeout(pollTimeoutId);
       if (pollInterval) clearInterval(pollInterval);
-      window.removeEventListener('conversation-merged', handleConversationMerged);
       supabase.removeChannel(channel);
     };
   }, [user]);
@@ -124,24 +122,9 @@ export function MessagesPage({ onClose }: MessagesPageProps) {
 
       if (error) throw error;
 
-      // Deduplicate conversations by project_id and user pair
-      const uniqueConversations = new Map<string, any>();
-      
-      (conversationsData || []).forEach(conv => {
-        // Create a unique key for the conversation based on project and both users (sorted to ensure consistency)
-        const userPair = [conv.creator_id, conv.sender_id].sort().join('_');
-        const conversationKey = `${conv.project_id}_${userPair}`;
-        
-        // Keep the most recent conversation for each unique project-user pair
-        if (!uniqueConversations.has(conversationKey) || 
-            new Date(conv.updated_at) > new Date(uniqueConversations.get(conversationKey)!.updated_at)) {
-          uniqueConversations.set(conversationKey, conv);
-        }
-      });
-
-      // Load additional data for each unique conversation
+      // Load additional data for each conversation; the database keeps one per user pair and project
       const conversationsWithDetails = await Promise.all(
-        Array.from(uniqueConversations.values()).map(async (conv) => {
+        (conversationsData || []).map(async (conv) => {
           // Get project, creator and sender profiles
           const [projectData, creatorProfile, senderProfile, messagesResult] = await Promise.all([
             supabase
@@ -347,6 +330,7 @@ export function MessagesPage({ onClose }: MessagesPageProps) {
                 {conversations.map((conversation) => {
                   const otherUser = getOtherUser(conversation);
                   const isOwnMessage = conversation.last_message?.sender_id === user?.id;
+                  const isMuted = conversation.creator_id === user?.id ? conversation.creator_muted : conversation.sender_muted;
                   
                   return (
                     <div
@@ -373,8 +357,11 @@ export function MessagesPage({ onClose }: MessagesPageProps) {
                                 {otherUser.profile?.username || otherUser.fallbackName}
                               </h3>
                               <div className="flex items-center gap-1 sm:gap-2">
+                                {isMuted && (
+                                  <BellOff className="h-3 w-3 sm:h-3.5 sm:w-3.5 text-muted-foreground" aria-label="Muted" />
+                                )}
                                 {conversation.unread_count > 0 && (
-                                  <Badge variant="destructive" className="text-xs px-1.5 sm:px-2 py-0.5 sm:py-1 h-4 sm:h-5 min-w-[16px] sm:min-w-[20px] flex items-center justify-center">
+                                  <Badge variant={isMuted ? "secondary" : "destructive"} className="text-xs px-1.5 sm:px-2 py-0.5 sm:py-1 h-4 sm:h-5 min-w-[16px] sm:min-w-[20px] flex items-center justify-center">
                                     {conversation.unread_count}
                                   </Badge>
                                 )}
@@ -405,7 +392,9 @@ export function MessagesPage({ onClose }: MessagesPageProps) {
                                 )}
                               </div>
                               <p className="text-xs sm:text-sm leading-relaxed break-words">
-                                {conversation.last_message.content.length > 80 
+                                {!conversation.last_message.content
+                                  ? 'Sent an attachment'
+                                  : conversation.last_message.content.length > 80 
                                   ? `${conversation.last_message.content.substring(0, 80)}...`
                                   : conversation.last_message.content
                                 }
@@ -5,10 +5,11 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Edit, Trash2, ExternalLink, Clock, CheckCircle, XCircle, Eye, FolderOpen, Heart } from "lucide-react";
+import { Edit, Trash2, ExternalLink, Clock, CheckCircle, XCircle, Eye, FolderOpen, Heart, RotateCcw, History, MessageSquareWarning, BarChart3 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { ProjectCarousel } from "./ProjectCarousel";
+import { ReviewHistory } from "./ReviewHistory";
 
 interface Project {
   id: string;
@@ -23,15 +24,21 @@ interface Project {
   allows_contact: boolean;
   screenshots: string[];
   status: 'pending' | 'approved' | 'rejected';
+  review_feedback: string | null;
+  user_id: string;
   created_at: string;
   updated_at: string;
   views?: number;
   reactions?: number;
+  hasPendingEdit?: boolean;
 }
 
 export const MyProjects = () => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
+  const [historyProjectId, setHistoryProjectId] = useState<string | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [resubmittingId, setResubmittingId] = useState<string | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
@@ -62,38 +69,36 @@ export const MyProjects = () => {
         return;
       }
 
-      // Get analytics data for each project
+      // Approved projects with an update waiting for re-review
+      const { data: pendingEdits } = await supabase
+        .from('project_edits')
+        .select('project_id')
+        .eq('user_id', user.id)
+        .eq('status', 'pending');
+
+      const pendingEditIds = new Set((pendingEdits || []).map(edit => edit.project_id));
+
+      // View and reaction totals are kept per project by the database
       const projectIds = (data || []).map(p => p.id);
-      const projectsWithAnalytics = await Promise.all(
-        (data || []).map(async (project) => {
-          let views = 0;
-          let reactions = 0;
-
-          if (projectIds.length > 0) {
-            // Get views
-            const { data: viewsData } = await supabase
-              .from('project_views')
-              .select('id')
-              .eq('project_id', project.id);
-
-            // Get reactions
-            const { data: reactionsData } = await supabase
-              .from('project_reactions')
-              .select('id')
-              .eq('project_id', project.id);
-
-            views = viewsData?.length || 0;
-            reactions = reactionsData?.length || 0;
-          }
-
-          return {
-            ...project,
-            status: project.status as 'pending' | 'approved' | 'rejected',
-            views,
-            reactions
-          };
-        })
-      );
+      const { data: statsData, error: statsError } = projectIds.length > 0
+        ? await supabase
+            .from('project_stats')
+            .select('project_id, view_count, reaction_count')
+            .in('project_id', projectIds)
+        : { data: [], error: null };
+
+      if (statsError) {
+        console.error('Error fetching project stats:', statsError);
+      }
+
+      const statsMap = new Map((statsData || []).map(stats => [stats.project_id, stats]));
+      const projectsWithAnalytics = (data || []).map(project => ({
+        ...project,
+        status: project.status as 'pending' | 'approved' | 'rejected',
+        views: statsMap.get(project.id)?.view_count ?? 0,
+        reactions: statsMap.get(project.id)?.reaction_count ?? 0,
+        hasPendingEdit: pendingEditIds.has(project.id)
+      }));
 
       setProjects(projectsWithAnalytics);
     } catch (error) {
@@ -135,6 +140,35 @@ export const MyProjects = () => {
     }
   };
 
+  const resubmitProject = async (projectId: string) => {
+    setResubmittingId(projectId);
+    try {
+      const { error } = await supabase.rpc('resubmit_project', { _project_id: projectId });
+
+      if (error) {
+        console.error('Error resubmitting project:', error);
+        toast({
+          title: "Error",
+          description: "Failed to resubmit project",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Resubmitted for review",
+        description: "Your project is back in the review queue",
+      });
+
+      setProjects(projects.map(p => p.id === projectId ? { ...p, status: 'pending' } : p));
+      setHistoryRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setResubmittingId(null);
+    }
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'approved':
@@ -208,6 +242,62 @@ export const MyProjects = () => {
                   )}
                 </div>
 
+                {project.hasPendingEdit && (
+                  <div className="flex items-center gap-2 text-xs text-yellow-600">
+                    <Clock className="h-3 w-3" />
+                    <span>Update waiting for review. The approved version stays live until then.</span>
+                  </div>
+                )}
+
+                {/* Moderator feedback */}
+                {project.status === 'rejected' && (
+                  <div className="rounded-lg border border-red-200/40 bg-red-500/5 p-3 space-y-2">
+                    <div className="flex items-center gap-2 text-xs font-medium text-red-500">
+                      <MessageSquareWarning className="h-3 w-3" />
+                      <span>Moderator feedback</span>
+                    </div>
+                    <p className="text-xs md:text-sm text-foreground/80 leading-relaxed whitespace-pre-line">
+                      {project.review_feedback || 'No feedback was left for this review.'}
+                    </p>
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      <Button
+                        size="sm"
+                        onClick={() => resubmitProject(project.id)}
+                        disabled={resubmittingId === project.id}
+                        className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-white font-light text-xs"
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        {resubmittingId === project.id ? 'Resubmitting...' : 'Resubmit for review'}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/edit-project/${project.id}`)}
+                        className="border-border/30 hover:border-[#fda085]/50 hover:bg-[#fda085]/10 font-light text-xs"
+                      >
+                        <Edit className="h-3 w-3 mr-1" />
+                        Edit first
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {/* Review history */}
+                <div>
+                  <button
+                    onClick={() => setHistoryProjectId(historyProjectId === project.id ? null : project.id)}
+                    className="flex items-center gap-1 text-xs text-muted-foreground hover:text-[#fda085] transition-colors"
+                  >
+                    <History className="h-3 w-3" />
+                    {historyProjectId === project.id ? 'Hide review history' : 'Review history'}
+                  </button>
+                  {historyProjectId === project.id && (
+                    <div className="mt-3">
+                      <ReviewHistory projectId={project.id} ownerId={project.user_id} refreshKey={historyRefreshKey} />
+                    </div>
+                  )}
+                </div>
+
                 {/* Analytics */}
                 {project.status === 'approved' && (
                   <div className="flex items-center gap-4 text-xs text-muted-foreground">
@@ -219,6 +309,14 @@ export const MyProjects = () => {
                       <Heart className="h-3 w-3" />
                       <span>{project.reactions || 0} reactions</span>
                     </div>
+                    <button
+                      type="button"
+                      onClick={() => navigate(`/my-projects/${project.id}/analytics`)}
+                      className="flex items-center gap-1 text-[#fda085] hover:text-[#f6d365] transition-colors"
+                    >
+                      <BarChart3 className="h-3 w-3" />
+                      <span>Analytics</span>
+                    </button>
                   </div>
                 )}
 
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Menu, X, LogOut, Image, Plus, FolderOpen, MessageSquare } from 'lucide-react';
+import { Menu, X, LogOut, Image, Plus, FolderOpen, MessageSquare, ShieldCheck } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
@@ -12,7 +12,7 @@ export const Navbar = () => {
   const [unreadCount, setUnreadCount] = useState(0);
   const navigate = useNavigate();
   const location = useLocation();
-  const { user, profile, loading, signOut, refreshProfile } = useAuth();
+  const { user, profile, isModerator, loading, signOut, refreshProfile } = useAuth();
 
   const navItems = [
     { name: 'Gallery', path: '/gallery', icon: Image, label: 'Gallery' },
@@ -21,6 +21,9 @@ export const Navbar = () => {
       { name: 'My Projects', path: '/my-projects', icon: FolderOpen, label: 'Projects' }, 
       { name: 'Messages', path: '/messages', icon: MessageSquare, label: 'Messages' }
     ] : []),
+    ...(isModerator ? [
+      { name: 'Moderation', path: '/admin/moderation', icon: ShieldCheck, label: 'Review' }
+    ] : []),
   ];
 
   const handleSignOut = async () => {
@@ -64,7 +67,7 @@ export const Navbar = () => {
     };
   }, [user]);
 
-  // Listen for message read events to update unread count
+  // Listen for message read and mute events to update unread count
   useEffect(() => {
     const handleMessageRead = () => {
       if (user) {
@@ -73,8 +76,10 @@ export const Navbar = () => {
     };
 
     window.addEventListener('message-read', handleMessageRead);
+    window.addEventListener('conversation-muted', handleMessageRead);
     return () => {
       window.removeEventListener('message-read', handleMessageRead);
+      window.removeEventListener('conversation-muted', handleMessageRead);
     };
   }, [user]);
 
@@ -98,15 +103,19 @@ export const Navbar = () => {
     try {
       const { data: conversations } = await supabase
         .from('conversations')
-        .select('id')
+        .select('id, creator_id, creator_muted, sender_muted')
         .or(`creator_id.eq.${user.id},sender_id.eq.${user.id}`);
 
-      if (!conversations || conversations.length === 0) {
+      // Muted conversations don't count towards the badge
+      const conversationIds = (conversations || [])
+        .filter(c => !(c.creator_id === user.id ? c.creator_muted : c.sender_muted))
+        .map(c => c.id);
+
+      if (conversationIds.length === 0) {
         setUnreadCount(0);
         return;
       }
 
-      const conversationIds = conversations.map(c => c.id);
       const { count } = await supabase
         .from('messages')
         .select('id', { count: 'exact', head: true })
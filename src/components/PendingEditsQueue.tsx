@@ -0,0 +1,272 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, XCircle, Inbox } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ProjectShowcase } from '@/components/ProjectShowcase';
+import { ProjectEdit, editFieldLabels, toProjectEdit } from '@/lib/projectEdits';
+
+interface LiveProject {
+  id: string;
+  name: string;
+  description: string;
+  story: string;
+  deeper_story: string | null;
+  link: string;
+  tools: string[];
+  screenshots: string[] | null;
+  creator_name: string;
+  created_at: string;
+}
+
+interface EditWithProject extends ProjectEdit {
+  project: LiveProject;
+}
+
+const formatValue = (value: unknown) => {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+};
+
+// Moderation queue for updates to already approved projects
+export const PendingEditsQueue = () => {
+  const { toast } = useToast();
+  const [edits, setEdits] = useState<EditWithProject[]>([]);
+  const [selectedEdit, setSelectedEdit] = useState<EditWithProject | null>(null);
+  const [feedback, setFeedback] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    fetchEdits();
+  }, []);
+
+  useEffect(() => {
+    setFeedback("");
+  }, [selectedEdit?.id]);
+
+  const fetchEdits = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_edits')
+        .select('id, project_id, user_id, changes, flagged_fields, status, feedback, created_at')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching pending edits:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load pending edits.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const projectIds = (data || []).map(edit => edit.project_id);
+      if (projectIds.length === 0) {
+        setEdits([]);
+        setSelectedEdit(null);
+        return;
+      }
+
+      const { data: projectsData, error: projectsError } = await supabase
+        .from('projects')
+        .select('id, name, description, story, deeper_story, link, tools, screenshots, creator_name, created_at')
+        .in('id', projectIds);
+
+      if (projectsError) {
+        console.error('Error fetching projects for edits:', projectsError);
+        return;
+      }
+
+      const projectsById = new Map((projectsData || []).map(project => [project.id, project]));
+      const queue = (data || [])
+        .filter(edit => projectsById.has(edit.project_id))
+        .map(edit => ({
+          ...toProjectEdit(edit),
+          project: projectsById.get(edit.project_id) as LiveProject
+        }));
+
+      setEdits(queue);
+      setSelectedEdit(queue[0] || null);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reviewEdit = async (edit: EditWithProject, approve: boolean) => {
+    if (!approve && !feedback.trim()) {
+      toast({
+        title: "Feedback required",
+        description: "Let the creator know why this update can't go live.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const { error } = await supabase.rpc('review_project_edit', {
+        _edit_id: edit.id,
+        _approve: approve,
+        _feedback: feedback.trim() || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: approve ? "Update approved" : "Update rejected",
+        description: approve
+          ? `The changes to ${edit.project.name} are now live.`
+          : `${edit.project.name} keeps its approved version.`,
+      });
+
+      const remaining = edits.filter(e => e.id !== edit.id);
+      setEdits(remaining);
+      setSelectedEdit(remaining[0] || null);
+    } catch (error) {
+      console.error('Error reviewing edit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to review the update.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (edits.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-gradient-to-br from-[#f6d365]/20 to-[#fda085]/20 rounded-full flex items-center justify-center mx-auto mb-6">
+          <Inbox className="h-8 w-8 text-muted-foreground/70" />
+        </div>
+        <h3 className="text-lg font-medium text-foreground mb-2">Nothing here</h3>
+        <p className="text-sm text-muted-foreground">No updates are waiting for review.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+      {/* Queue */}
+      <div className="space-y-3">
+        {edits.map((edit) => (
+          <Card
+            key={edit.id}
+            onClick={() => setSelectedEdit(edit)}
+            className={`cursor-pointer border-border/30 bg-card/80 backdrop-blur-sm transition-all duration-300 ${
+              selectedEdit?.id === edit.id
+                ? 'border-[#fda085]/60 shadow-lg shadow-[#fda085]/10'
+                : 'hover:bg-card/90 hover:border-[#f6d365]/40'
+            }`}
+          >
+            <CardContent className="p-4">
+              <h3 className="font-medium text-foreground line-clamp-1 mb-1">{edit.project.name}</h3>
+              <p className="text-xs text-muted-foreground mb-2">
+                {edit.project.creator_name} · {new Date(edit.created_at).toLocaleDateString()}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {edit.flagged_fields.map((field) => (
+                  <Badge key={field} variant="secondary" className="text-xs font-light">
+                    {editFieldLabels[field] || field}
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Preview */}
+      {selectedEdit && (
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
+            <CardContent className="p-4 sm:p-6 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <h3 className="text-sm font-medium text-foreground">Flagged changes</h3>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={() => reviewEdit(selectedEdit, true)}
+                    disabled={updating}
+                    className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-white font-semibold"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Approve update
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => reviewEdit(selectedEdit, false)}
+                    disabled={updating}
+                    className="border-destructive/40 text-destructive hover:bg-destructive/10"
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {selectedEdit.flagged_fields.map((field) => (
+                  <div key={field} className="rounded-lg border border-border/30 p-3 text-sm">
+                    <p className="font-medium text-foreground mb-2">{editFieldLabels[field] || field}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div>
+                        <p className="text-xs text-muted-foreground mb-1">Live</p>
+                        <p className="text-foreground/70 whitespace-pre-line break-words line-clamp-6">
+                          {formatValue(selectedEdit.project[field as keyof LiveProject])}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-muted-foreground mb-1">Proposed</p>
+                        <p className="text-foreground whitespace-pre-line break-words line-clamp-6">
+                          {formatValue(selectedEdit.changes[field as keyof typeof selectedEdit.changes])}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-feedback" className="text-sm font-medium text-foreground">
+                  Feedback for the creator
+                </Label>
+                <Textarea
+                  id="edit-feedback"
+                  placeholder="Required when rejecting. Explain what needs to change..."
+                  value={feedback}
+                  onChange={(e) => setFeedback(e.target.value)}
+                  className="border-border/30 focus:border-[#fda085]/50 focus:ring-[#fda085]/20 min-h-[80px] font-light"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* The update as it would appear once approved */}
+          <ProjectShowcase
+            key={selectedEdit.id}
+            project={{ ...selectedEdit.project, ...selectedEdit.changes }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { formatDistanceToNow } from "date-fns";
+
+interface PresenceStatusProps {
+  online: boolean;
+  lastSeenAt: string | null;
+  className?: string;
+}
+
+export const PresenceStatus = ({ online, lastSeenAt, className = '' }: PresenceStatusProps) => {
+  if (online) {
+    return (
+      <span className={`flex items-center gap-1.5 text-xs text-emerald-400 ${className}`}>
+        <span className="h-2 w-2 rounded-full bg-emerald-400" />
+        Online
+      </span>
+    );
+  }
+
+  if (!lastSeenAt) return null;
+
+  return (
+    <span className={`text-xs text-muted-foreground/80 ${className}`}>
+      Last seen {formatDistanceToNow(new Date(lastSeenAt), { addSuffix: true })}
+    </span>
+  );
+};
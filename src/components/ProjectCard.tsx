@@ -2,13 +2,20 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ExternalLink, Heart, Rocket, Lightbulb, MessageCircle, Eye, Smartphone } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { ExternalLink, MessageCircle, Eye, Smartphone } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
 import { ProjectCarousel } from "./ProjectCarousel";
 import { useState, useEffect } from "react";
 import { MessageDialog } from "./MessageDialog";
 import { supabase } from "@/integrations/supabase/client";
 import { Avatar, AvatarImage, AvatarFallback } from "@radix-ui/react-avatar";
+import { HighlightedText } from "./HighlightedText";
+import { toolSlug } from "@/lib/tools";
+import { SaveToCollection } from "./SaveToCollection";
+import { ReactionIcon } from "./ReactionIcon";
+import { AnimatedCount } from "./AnimatedCount";
+import { useReactionTypes } from "@/hooks/use-reaction-types";
+import type { ReactionCounts, UserReactions } from "@/lib/reactions";
 
 interface Project {
   id: string;
@@ -24,17 +31,20 @@ interface Project {
     name: string;
     allowsContact: boolean;
     avatar_url?: string;
+    username?: string;
   };
-  reactions: {
-    heart: number;
-    rocket: number;
-    lightbulb: number;
+  reactions: ReactionCounts;
+  // Present when the card is a search result
+  highlights?: {
+    name: string;
+    snippet: string;
+    tools: string[];
   };
 }
 
 interface ProjectCardProps {
   project: Project;
-  userReactions: Record<string, string>;
+  userReactions: UserReactions;
   onReaction: (projectId: string, reactionType: string) => void;
 }
 
@@ -49,6 +59,7 @@ export const ProjectCard = ({ project, userReactions, onReaction }: ProjectCardP
   const navigate = useNavigate();
   const [showMessageDialog, setShowMessageDialog] = useState(false);
   const [updatedProject, setUpdatedProject] = useState(project);
+  const reactionTypes = useReactionTypes();
   
   // Listen for profile updates to refresh creator data
   useEffect(() => {
@@ -68,7 +79,8 @@ export const ProjectCard = ({ project, userReactions, onReaction }: ProjectCardP
             creator: {
               ...prev.creator,
               name: data.username || prev.creator.name,
-              avatar_url: data.avatar_url
+              avatar_url: data.avatar_url,
+              username: data.username
             }
           }));
         }
@@ -89,14 +101,13 @@ export const ProjectCard = ({ project, userReactions, onReaction }: ProjectCardP
     setUpdatedProject(project);
   }, [project]);
   
-  const getReactionIcon = (type: string) => {
-    switch (type) {
-      case 'heart': return Heart;
-      case 'rocket': return Rocket; 
-      case 'lightbulb': return Lightbulb;
-      default: return Heart;
-    }
-  };
+
+  // Tools that matched the search come first so the match is visible
+  const matchedTools = project.highlights?.tools || [];
+  const orderedTools = [
+    ...project.tools.filter(tool => matchedTools.includes(tool)),
+    ...project.tools.filter(tool => !matchedTools.includes(tool))
+  ];
 
   return (
     <Card 
@@ -186,9 +197,18 @@ export const ProjectCard = ({ project, userReactions, onReaction }: ProjectCardP
                   </div>
                 )}
                 <div className="flex-1 min-w-0">
-                  <p className="text-xs text-muted-foreground mb-0.5 font-normal">Built by {updatedProject.creator.name}</p>
+                  <p className="text-xs text-muted-foreground mb-0.5 font-normal">
+                    Built by{' '}
+                    {updatedProject.creator.username ? (
+                      <Link to={`/u/${updatedProject.creator.username}`} className="hover:text-[#fda085] transition-colors">
+                        {updatedProject.creator.name}
+                      </Link>
+                    ) : (
+                      updatedProject.creator.name
+                    )}
+                  </p>
                   <h3 className="text-sm sm:text-base md:text-lg lg:text-xl font-bold text-foreground leading-[1.2] group-hover:text-[#f6d365] transition-colors duration-300">
-                    {project.name}
+                    {project.highlights ? <HighlightedText text={project.highlights.name} /> : project.name}
                   </h3>
                 </div>
               </div>
@@ -200,7 +220,11 @@ export const ProjectCard = ({ project, userReactions, onReaction }: ProjectCardP
                 <div className="absolute left-0 top-0 bottom-0 w-0.5 bg-gradient-to-b from-[#f6d365] to-[#fda085] rounded-full"></div>
                 <div className="pl-2.5 sm:pl-3 md:pl-4">
                   <blockquote className="text-xs sm:text-sm md:text-base font-medium text-foreground/90 leading-[1.4] italic line-clamp-2 sm:line-clamp-3 md:line-clamp-4">
-                    "{project.story}"
+                    {project.highlights?.snippet ? (
+                      <HighlightedText text={project.highlights.snippet} />
+                    ) : (
+                      `"${project.story}"`
+                    )}
                   </blockquote>
                 </div>
               </div>
@@ -209,18 +233,21 @@ export const ProjectCard = ({ project, userReactions, onReaction }: ProjectCardP
             {/* Tools Section - More compact on mobile */}
             <div className="mb-3 md:mb-4 pt-1 sm:pt-4">
               <div className="flex flex-wrap gap-1">
-                {project.tools.slice(0, 2).map((tool, index) => (
-                  <Badge 
-                    key={tool} 
-                    variant="secondary"
-                    className={`text-xs px-2 py-0.5 md:px-2.5 md:py-1 border transition-all duration-300 ${
-                      index % 2 === 0 
-                        ? 'bg-gradient-to-r from-[#f6d365]/10 to-[#fda085]/10 hover:from-[#f6d365]/20 hover:to-[#fda085]/20 text-foreground/90 border-[#f6d365]/20 hover:border-[#f6d365]/40' 
-                        : 'bg-gradient-to-r from-[#fda085]/10 to-[#f6d365]/10 hover:from-[#fda085]/20 hover:to-[#f6d365]/20 text-foreground/90 border-[#fda085]/20 hover:border-[#fda085]/40'
-                    }`}
-                  >
-                    {tool}
-                  </Badge>
+                {orderedTools.slice(0, 2).map((tool, index) => (
+                  <Link key={tool} to={`/tools/${toolSlug(tool)}`}>
+                    <Badge 
+                      variant="secondary"
+                      className={`text-xs px-2 py-0.5 md:px-2.5 md:py-1 border transition-all duration-300 ${
+                        matchedTools.includes(tool) ? 'ring-1 ring-[#f6d365]/60 ' : ''
+                      }${
+                        index % 2 === 0 
+                          ? 'bg-gradient-to-r from-[#f6d365]/10 to-[#fda085]/10 hover:from-[#f6d365]/20 hover:to-[#fda085]/20 text-foreground/90 border-[#f6d365]/20 hover:border-[#f6d365]/40' 
+                          : 'bg-gradient-to-r from-[#fda085]/10 to-[#f6d365]/10 hover:from-[#fda085]/20 hover:to-[#f6d365]/20 text-foreground/90 border-[#fda085]/20 hover:border-[#fda085]/40'
+                      }`}
+                    >
+                      {tool}
+                    </Badge>
+                  </Link>
                 ))}
                 {project.tools.length > 2 && (
                   <Badge variant="outline" className="text-xs px-2 py-0.5 md:px-2.5 md:py-1 text-muted-foreground border-white/20">
@@ -233,13 +260,15 @@ export const ProjectCard = ({ project, userReactions, onReaction }: ProjectCardP
             {/* Bottom Section - Reactions and Actions */}
             <div className="flex items-center justify-between pt-3 mt-auto">
               <div className="flex items-center gap-0.5">
-                {Object.entries(project.reactions).map(([type, count]) => {
-                  const Icon = getReactionIcon(type);
-                  const isActive = userReactions[project.id] === type;
+                {reactionTypes.map((reaction) => {
+                  const type = reaction.key;
+                  const count = project.reactions[type] || 0;
+                  const isActive = !!userReactions[project.id]?.has(type);
                   
                   return (
                     <Button
                       key={type}
+                      title={reaction.label}
                       variant="ghost"
                       size="sm"
                       className={`flex items-center gap-1 text-xs transition-all duration-300 h-7 px-2 text-muted-foreground hover:text-foreground ${
@@ -252,14 +281,15 @@ export const ProjectCard = ({ project, userReactions, onReaction }: ProjectCardP
                         onReaction(project.id, type);
                       }}
                     >
-                      <Icon className={`h-3.5 w-3.5 transition-all duration-300 ${isActive ? 'fill-white scale-110' : ''}`} />
-                      <span className={`font-medium transition-all duration-300 ${isActive ? 'text-white' : ''}`}>{count}</span>
+                      <ReactionIcon reaction={reaction} className={`h-3.5 w-3.5 text-[13px] transition-all duration-300 ${isActive ? 'fill-white scale-110' : ''}`} />
+                      <AnimatedCount value={count} className={`font-medium transition-all duration-300 ${isActive ? 'text-white' : ''}`} />
                     </Button>
                   );
                 })}
               </div>
               
               <div className="flex items-center gap-1.5">
+                <SaveToCollection projectId={project.id} triggerClassName="text-xs h-7 px-2" compact />
                 {project.creator.allowsContact && project.user_id && (
                   <Button 
                     variant="outline" 
@@ -0,0 +1,435 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { MessageSquare, Pencil, Reply, Trash2, Lock } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { MarkdownLite } from "./MarkdownLite";
+
+interface Comment {
+  id: string;
+  project_id: string;
+  user_id: string;
+  parent_id: string | null;
+  body: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  created_at: string;
+}
+
+interface CommentAuthor {
+  username: string;
+  avatar_url: string | null;
+}
+
+interface ProjectCommentsProps {
+  projectId: string;
+  projectOwnerId: string;
+  allowsComments: boolean;
+}
+
+const MAX_LENGTH = 2000;
+// Deeper replies still thread, they just stop indenting
+const MAX_INDENT_DEPTH = 3;
+
+export const ProjectComments = ({ projectId, projectOwnerId, allowsComments }: ProjectCommentsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [authors, setAuthors] = useState<Record<string, CommentAuthor>>({});
+  const [loading, setLoading] = useState(true);
+  const [newComment, setNewComment] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadComments();
+  }, [projectId]);
+
+  // Real-time updates, same channel mechanism as conversations
+  useEffect(() => {
+    const channel = supabase
+      .channel(`comments-${projectId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'project_comments',
+          filter: `project_id=eq.${projectId}`
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const removed = payload.old as Partial<Comment>;
+            setComments(prev => prev.filter(comment => comment.id !== removed.id));
+            return;
+          }
+
+          const changed = payload.new as Comment;
+          setComments(prev => {
+            const exists = prev.some(comment => comment.id === changed.id);
+            return exists
+              ? prev.map(comment => comment.id === changed.id ? changed : comment)
+              : [...prev, changed];
+          });
+          loadAuthors([changed.user_id]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [projectId]);
+
+  const loadComments = async () => {
+    setLoading(true);
+
+    const { data, error } = await supabase
+      .from('project_comments')
+      .select('id, project_id, user_id, parent_id, body, edited_at, deleted_at, created_at')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    setLoading(false);
+
+    if (error) {
+      console.error('Error loading comments:', error);
+      return;
+    }
+
+    setComments(data || []);
+    loadAuthors((data || []).map(comment => comment.user_id));
+  };
+
+  const loadAuthors = async (userIds: string[]) => {
+    const missing = Array.from(new Set(userIds)).filter(id => !authors[id]);
+    if (missing.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('user_id, username, avatar_url')
+      .in('user_id', missing);
+
+    if (error) {
+      console.error('Error loading comment authors:', error);
+      return;
+    }
+
+    setAuthors(prev => {
+      const next = { ...prev };
+      data?.forEach(profile => {
+        next[profile.user_id] = { username: profile.username, avatar_url: profile.avatar_url };
+      });
+      return next;
+    });
+  };
+
+  const postComment = async (body: string, parentId: string | null) => {
+    if (!user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to join the conversation.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const trimmed = body.trim();
+    if (!trimmed) return false;
+
+    setSaving(true);
+
+    const { data, error } = await supabase
+      .from('project_comments')
+      .insert({ project_id: projectId, user_id: user.id, parent_id: parentId, body: trimmed })
+      .select('id, project_id, user_id, parent_id, body, edited_at, deleted_at, created_at')
+      .single();
+
+    setSaving(false);
+
+    if (error) {
+      console.error('Error posting comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to post your comment. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    setComments(prev => prev.some(comment => comment.id === data.id) ? prev : [...prev, data]);
+    loadAuthors([user.id]);
+    return true;
+  };
+
+  const saveEdit = async (commentId: string) => {
+    const trimmed = editBody.trim();
+    if (!trimmed) return;
+
+    setSaving(true);
+
+    const { data, error } = await supabase
+      .from('project_comments')
+      .update({ body: trimmed })
+      .eq('id', commentId)
+      .select('id, project_id, user_id, parent_id, body, edited_at, deleted_at, created_at')
+      .single();
+
+    setSaving(false);
+
+    if (error) {
+      console.error('Error editing comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your changes. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setComments(prev => prev.map(comment => comment.id === commentId ? data : comment));
+    setEditingId(null);
+  };
+
+  const deleteComment = async (comment: Comment) => {
+    if (!confirm('Delete this comment? This action cannot be undone.')) {
+      return;
+    }
+
+    const { error } = await supabase.rpc('delete_project_comment', { _comment_id: comment.id });
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the comment. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Comments with replies are blanked by the database instead of removed
+    const hasReplies = comments.some(c => c.parent_id === comment.id);
+    setComments(prev => hasReplies
+      ? prev.map(c => c.id === comment.id ? { ...c, body: '', deleted_at: new Date().toISOString() } : c)
+      : prev.filter(c => c.id !== comment.id)
+    );
+  };
+
+  const repliesByParent = comments.reduce<Record<string, Comment[]>>((acc, comment) => {
+    const key = comment.parent_id ?? 'root';
+    (acc[key] ||= []).push(comment);
+    return acc;
+  }, {});
+
+  const visibleCount = comments.filter(comment => !comment.deleted_at).length;
+
+  const composer = (
+    value: string,
+    onChange: (value: string) => void,
+    onSubmit: () => void,
+    submitLabel: string,
+    onCancel?: () => void
+  ) => (
+    <div className="space-y-2">
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value.slice(0, MAX_LENGTH))}
+        placeholder="Share your thoughts… **bold**, *italic*, `code` and links work"
+        className="min-h-[80px] bg-background/40 border-white/10 focus:border-[#f6d365]/30 focus:ring-[#f6d365]/10 text-sm"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">{value.length}/{MAX_LENGTH}</span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            onClick={onSubmit}
+            disabled={saving || !value.trim()}
+            className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-gray-900 font-medium"
+          >
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderComment = (comment: Comment, depth: number) => {
+    const author = authors[comment.user_id];
+    const name = author?.username ?? 'Unknown';
+    const isAuthor = user?.id === comment.user_id;
+    const canDelete = !comment.deleted_at && (isAuthor || user?.id === projectOwnerId);
+    const replies = repliesByParent[comment.id] || [];
+
+    return (
+      <div key={comment.id} className={depth > 0 && depth <= MAX_INDENT_DEPTH ? 'ml-4 sm:ml-6 pl-3 sm:pl-4 border-l border-white/10' : ''}>
+        <div className="py-3">
+          {comment.deleted_at ? (
+            <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 mb-1.5">
+                <Avatar className="h-6 w-6">
+                  <AvatarImage src={author?.avatar_url || undefined} alt={name} />
+                  <AvatarFallback className="bg-gradient-to-br from-[#f6d365] to-[#fda085] text-gray-900 text-[10px] font-semibold">
+                    {name.charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                {author ? (
+                  <Link to={`/u/${author.username}`} className="text-sm font-medium text-foreground hover:text-[#fda085] transition-colors">
+                    {name}
+                  </Link>
+                ) : (
+                  <span className="text-sm font-medium text-foreground">{name}</span>
+                )}
+                {comment.user_id === projectOwnerId && (
+                  <span className="px-1.5 py-0.5 rounded text-[10px] bg-[#f6d365]/20 text-[#f6d365] border border-[#f6d365]/30">Creator</span>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  {comment.edited_at && ' · edited'}
+                </span>
+              </div>
+
+              {editingId === comment.id ? (
+                composer(editBody, setEditBody, () => saveEdit(comment.id), 'Save', () => setEditingId(null))
+              ) : (
+                <MarkdownLite text={comment.body} className="text-sm text-foreground/80 leading-relaxed break-words" />
+              )}
+
+              {editingId !== comment.id && (
+                <div className="flex items-center gap-1 mt-1 -ml-2">
+                  {allowsComments && user && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-muted-foreground hover:text-[#fda085]"
+                      onClick={() => {
+                        setReplyingTo(replyingTo === comment.id ? null : comment.id);
+                        setReplyBody('');
+                      }}
+                    >
+                      <Reply className="h-3.5 w-3.5 mr-1" />
+                      Reply
+                    </Button>
+                  )}
+                  {isAuthor && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-muted-foreground hover:text-[#fda085]"
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditBody(comment.body);
+                      }}
+                    >
+                      <Pencil className="h-3.5 w-3.5 mr-1" />
+                      Edit
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteComment(comment)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {replyingTo === comment.id && (
+            <div className="mt-2">
+              {composer(
+                replyBody,
+                setReplyBody,
+                async () => {
+                  if (await postComment(replyBody, comment.id)) {
+                    setReplyingTo(null);
+                    setReplyBody('');
+                  }
+                },
+                'Reply',
+                () => setReplyingTo(null)
+              )}
+            </div>
+          )}
+        </div>
+
+        {replies.map(reply => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
+      <CardContent className="p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-[#f6d365] to-[#fda085] flex items-center justify-center">
+            <MessageSquare className="h-5 w-5 text-white" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Comments</h3>
+            <p className="text-sm text-muted-foreground">
+              {visibleCount === 1 ? '1 comment' : `${visibleCount} comments`}
+            </p>
+          </div>
+        </div>
+
+        {allowsComments ? (
+          user ? (
+            composer(
+              newComment,
+              setNewComment,
+              async () => {
+                if (await postComment(newComment, null)) setNewComment('');
+              },
+              'Post comment'
+            )
+          ) : (
+            <div className="p-3 rounded-lg bg-muted/30 border border-border/50">
+              <p className="text-xs text-foreground/70 text-center">Sign in to join the conversation</p>
+            </div>
+          )
+        ) : (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/30 border border-border/50 text-xs text-foreground/70">
+            <Lock className="h-3.5 w-3.5" />
+            The creator has turned off new comments on this project.
+          </div>
+        )}
+
+        <div className="mt-4 divide-y divide-white/5">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="w-6 h-6 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+            </div>
+          ) : comments.length === 0 ? (
+            allowsComments && <p className="py-4 text-sm text-muted-foreground text-center">No comments yet. Be the first to share your thoughts.</p>
+          ) : (
+            (repliesByParent.root || []).map(comment => renderComment(comment, 0))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ExternalLink, Calendar, Sparkles } from "lucide-react";
+import { Link } from "react-router-dom";
+import { toolSlug } from "@/lib/tools";
+
+export interface ShowcaseProject {
+  name: string;
+  description: string;
+  story: string;
+  deeper_story?: string | null;
+  link: string;
+  tools: string[];
+  screenshots?: string[] | null;
+  creator_name: string;
+  created_at: string;
+}
+
+interface ProjectShowcaseProps {
+  project: ShowcaseProject;
+  avatarUrl?: string | null;
+}
+
+// Main project content shared by the public detail page and the moderation preview
+export const ProjectShowcase = ({ project, avatarUrl }: ProjectShowcaseProps) => {
+  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+
+  return (
+    <>
+      {/* Project Header - Name and Description First */}
+      <Card className="group relative overflow-hidden border-border/50 hover:border-white/20 transition-all duration-300 hover:shadow-xl hover:shadow-[#fda085]/5 bg-card/90 backdrop-blur-sm hover:-translate-y-1">
+        <div className="absolute inset-0 bg-gradient-to-br from-[#f6d365]/3 via-transparent to-[#fda085]/3 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+        
+        <CardContent className="relative p-6 sm:p-8">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-6 mb-6">
+            <div className="flex-1">
+              <div className="flex items-start gap-4 mb-4">
+                {avatarUrl ? (
+                  <img
+                    src={avatarUrl}
+                    alt={project.creator_name}
+                    className="w-12 h-12 rounded-full object-cover shadow-lg border-2 border-[#f6d365]/20 flex-shrink-0"
+                  />
+                ) : (
+                  <div className="w-12 h-12 rounded-full flex items-center justify-center text-white text-sm font-bold shadow-lg bg-gradient-to-br from-[#f6d365] via-[#fda085] to-[#f6d365] flex-shrink-0">
+                    {project.creator_name.split(' ').map(n => n[0]).join('')}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs sm:text-sm text-muted-foreground mb-2 font-medium">Built by {project.creator_name}</p>
+                  <h1 className="text-xl sm:text-2xl md:text-3xl lg:text-4xl xl:text-5xl font-bold text-foreground leading-tight group-hover:text-[#f6d365] transition-colors duration-300">
+                    {project.name}
+                  </h1>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 sm:gap-4 text-foreground/60 text-xs sm:text-sm mb-4">
+                <div className="flex items-center gap-2">
+                  <Calendar className="h-4 w-4" />
+                  <span>Submitted: {new Date(project.created_at).toLocaleDateString()}</span>
+                </div>
+                {/* <div className="flex items-center gap-2">
+                  <Eye className="h-4 w-4" />
+                  <span>Project Details</span>
+                </div> */}
+              </div>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+              <Button 
+                onClick={() => window.open(project.link, '_blank')}
+                className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-white font-semibold shadow-lg hover:shadow-xl hover:shadow-[#fda085]/20 transition-all duration-300 hover:scale-105 text-sm sm:text-base"
+              >
+                <ExternalLink className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-2" />
+                View Live
+              </Button>
+            </div>
+          </div>
+
+          {/* Tools */}
+          <div className="flex flex-wrap gap-2 mb-6">
+            {project.tools.map((tool, index) => (
+              <Link key={tool} to={`/tools/${toolSlug(tool)}`}>
+                <Badge 
+                  variant="secondary"
+                  className={`text-xs px-3 py-1.5 border transition-all duration-300 ${
+                    index % 2 === 0 
+                      ? 'bg-gradient-to-r from-[#f6d365]/10 to-[#fda085]/10 hover:from-[#f6d365]/20 hover:to-[#fda085]/20 text-foreground/90 border-[#f6d365]/20 hover:border-[#f6d365]/40' 
+                      : 'bg-gradient-to-r from-[#fda085]/10 to-[#f6d365]/10 hover:from-[#fda085]/20 hover:to-[#f6d365]/20 text-foreground/90 border-[#fda085]/20 hover:border-[#fda085]/40'
+                  }`}
+                >
+                  {tool}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+
+          {/* Description */}
+          <p className="text-foreground/80 text-lg leading-relaxed">
+            {project.description}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Story Section */}
+      <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
+        <CardContent className="p-6 sm:p-8">
+          <div className="flex items-center gap-3 mb-6">
+            <Sparkles className="h-6 w-6 text-[#fda085]" />
+            <h2 className="text-xl sm:text-2xl lg:text-3xl font-semibold text-foreground">The Story</h2>
+          </div>
+          
+          <div className="space-y-6">
+            {/* Main Story - Always shown as a quote */}
+            <div className="relative">
+              <div className="absolute left-0 top-0 bottom-0 w-1 bg-gradient-to-b from-[#f6d365] to-[#fda085] rounded-full"></div>
+              <div className="pl-6">
+                <blockquote className="text-sm sm:text-base lg:text-lg xl:text-xl leading-relaxed italic text-foreground/90 font-normal">
+                  "{project.story}"
+                </blockquote>
+              </div>
+            </div>
+            
+            {/* Detailed Story - Only shown if exists */}
+            {project.deeper_story && (
+              <div className="border-t border-border/30 pt-6">
+                <div className="prose prose-lg max-w-none">
+                  <div className="text-foreground/80 leading-relaxed whitespace-pre-line text-sm sm:text-base lg:text-lg">
+                    {project.deeper_story}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Screenshots Gallery - Integrated carefully */}
+      {project.screenshots && project.screenshots.length > 0 && (
+        <Card className="group relative overflow-hidden border-border/50 hover:border-white/20 transition-all duration-300 hover:shadow-xl hover:shadow-[#fda085]/5 bg-card/90 backdrop-blur-sm hover:-translate-y-1">
+          <div className="absolute inset-0 bg-gradient-to-br from-[#f6d365]/3 via-transparent to-[#fda085]/3 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
+          
+          <CardContent className="relative p-0">
+            <div className="relative">
+              <img 
+                src={project.screenshots[currentImageIndex]} 
+                alt={`${project.name} screenshot ${currentImageIndex + 1}`}
+                className="w-full h-48 sm:h-64 md:h-80 lg:h-96 object-cover transition-transform duration-300 group-hover:scale-[1.02]"
+              />
+              {project.screenshots.length > 1 && (
+                <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex gap-2">
+                  {project.screenshots.map((_, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setCurrentImageIndex(index)}
+                      className={`w-3 h-3 rounded-full transition-all ${
+                        currentImageIndex === index 
+                          ? 'bg-gradient-to-r from-[#f6d365] to-[#fda085] shadow-lg' 
+                          : 'bg-white/50 hover:bg-white/70'
+                      }`}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+            {project.screenshots.length > 1 && (
+              <div className="p-4 border-t border-white/10">
+                <div className="flex gap-2 overflow-x-auto">
+                  {project.screenshots.map((screenshot, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setCurrentImageIndex(index)}
+                      className={`flex-shrink-0 w-20 h-16 rounded-lg overflow-hidden border-2 transition-all ${
+                        currentImageIndex === index 
+                          ? 'border-[#fda085] shadow-lg' 
+                          : 'border-border/30 hover:border-[#f6d365]/50'
+                      }`}
+                    >
+                      <img 
+                        src={screenshot} 
+                        alt={`Thumbnail ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+};
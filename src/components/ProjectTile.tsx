@@ -0,0 +1,43 @@
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Smartphone } from "lucide-react";
+
+export interface TileProject {
+  id: string;
+  name: string;
+  description: string;
+  screenshots: string[];
+  creator_name: string;
+}
+
+interface ProjectTileProps {
+  project: TileProject;
+  showCreator?: boolean;
+}
+
+// Compact project card for tool and creator pages
+export const ProjectTile = ({ project, showCreator = true }: ProjectTileProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <Card
+      className="group overflow-hidden border-border/50 hover:border-white/20 bg-card/90 cursor-pointer transition-all duration-300 hover:-translate-y-1 hover:shadow-xl hover:shadow-[#fda085]/5"
+      onClick={() => navigate(`/project/${project.id}`)}
+    >
+      <div className="h-36 bg-gradient-to-b from-[#f6d365]/5 via-[#fda085]/3 to-muted/10 flex items-center justify-center">
+        {project.screenshots.length > 0 ? (
+          <img src={project.screenshots[0]} alt={`${project.name} preview`} className="w-full h-full object-cover" />
+        ) : (
+          <Smartphone className="h-6 w-6 text-muted-foreground/40" />
+        )}
+      </div>
+      <CardContent className="p-4 space-y-1">
+        <h3 className="font-semibold text-foreground group-hover:text-[#f6d365] transition-colors duration-300">
+          {project.name}
+        </h3>
+        <p className="text-sm text-foreground/70 line-clamp-2">{project.description}</p>
+        {showCreator && <p className="text-xs text-muted-foreground">by {project.creator_name}</p>}
+      </CardContent>
+    </Card>
+  );
+};
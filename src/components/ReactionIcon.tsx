@@ -0,0 +1,35 @@
+import { Flame, GraduationCap, Handshake, Heart, Lightbulb, Rocket, Sparkles, Star, ThumbsUp, type LucideIcon } from "lucide-react";
+import type { ReactionType } from "@/lib/reactions";
+
+interface ReactionIconProps {
+  reaction: Pick<ReactionType, 'icon' | 'emoji' | 'label'>;
+  className?: string;
+}
+
+// Icons the app ships with, keyed by the lucide name stored in reaction_types.icon
+const reactionIcons: Record<string, LucideIcon> = {
+  'flame': Flame,
+  'graduation-cap': GraduationCap,
+  'handshake': Handshake,
+  'heart': Heart,
+  'lightbulb': Lightbulb,
+  'rocket': Rocket,
+  'sparkles': Sparkles,
+  'star': Star,
+  'thumbs-up': ThumbsUp
+};
+
+// Reactions without a known icon fall back to their emoji
+export const ReactionIcon = ({ reaction, className = '' }: ReactionIconProps) => {
+  const Icon = reaction.icon ? reactionIcons[reaction.icon] : undefined;
+
+  if (Icon) {
+    return <Icon className={className} aria-label={reaction.label} />;
+  }
+
+  return (
+    <span className={`inline-flex items-center justify-center leading-none ${className}`} role="img" aria-label={reaction.label}>
+      {reaction.emoji}
+    </span>
+  );
+};
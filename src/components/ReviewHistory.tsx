@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { CheckCircle, XCircle, Clock, RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface ProjectReview {
+  id: string;
+  actor_id: string | null;
+  from_status: string | null;
+  to_status: string;
+  feedback: string | null;
+  created_at: string;
+}
+
+interface ReviewHistoryProps {
+  projectId: string;
+  ownerId: string;
+  // Bump to reload after a status change made elsewhere on the page
+  refreshKey?: number;
+}
+
+export const ReviewHistory = ({ projectId, ownerId, refreshKey = 0 }: ReviewHistoryProps) => {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<ProjectReview[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadReviews();
+  }, [projectId, refreshKey]);
+
+  const loadReviews = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_reviews')
+        .select('id, actor_id, from_status, to_status, feedback, created_at')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error loading review history:', error);
+        return;
+      }
+
+      setReviews(data || []);
+    } catch (error) {
+      console.error('Error loading review history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getActorLabel = (review: ProjectReview) => {
+    if (review.actor_id && review.actor_id === user?.id) return 'You';
+    if (review.actor_id === ownerId) return 'Creator';
+    return 'Moderator';
+  };
+
+  const getEventLabel = (review: ProjectReview) => {
+    if (!review.from_status) return 'Submitted for review';
+    if (review.from_status === 'rejected' && review.to_status === 'pending') return 'Resubmitted for review';
+    switch (review.to_status) {
+      case 'approved':
+        return 'Approved';
+      case 'rejected':
+        return 'Changes requested';
+      default:
+        return 'Moved back to review';
+    }
+  };
+
+  const getEventIcon = (review: ProjectReview) => {
+    switch (review.to_status) {
+      case 'approved':
+        return <CheckCircle className="h-4 w-4 text-green-500" />;
+      case 'rejected':
+        return <XCircle className="h-4 w-4 text-red-500" />;
+      default:
+        return review.from_status ? <RotateCcw className="h-4 w-4 text-yellow-500" /> : <Clock className="h-4 w-4 text-yellow-500" />;
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-muted-foreground">Loading review history...</p>;
+  }
+
+  if (reviews.length === 0) {
+    return <p className="text-xs text-muted-foreground">No review history yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {/* Newest round first */}
+      {[...reviews].reverse().map((review) => (
+        <li key={review.id} className="flex gap-3">
+          <div className="mt-0.5 flex-shrink-0">{getEventIcon(review)}</div>
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+              <span className="font-medium text-foreground">{getEventLabel(review)}</span>
+              <span className="text-xs text-muted-foreground">
+                {getActorLabel(review)} · {new Date(review.created_at).toLocaleString()}
+              </span>
+            </div>
+            {review.feedback && (
+              <p className="mt-1 text-sm text-foreground/80 whitespace-pre-line leading-relaxed">
+                {review.feedback}
+              </p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RotateCcw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { diffWords, diffSets } from '@/lib/diff';
+import { ProjectChanges, editFieldLabels } from '@/lib/projectEdits';
+
+type RevisionSnapshot = Pick<ProjectChanges, 'name' | 'link' | 'description' | 'story' | 'deeper_story' | 'tools' | 'screenshots'>;
+
+interface ProjectRevision {
+  id: string;
+  revision_number: number;
+  snapshot: RevisionSnapshot;
+  created_at: string;
+}
+
+interface RevisionHistoryProps {
+  projectId: string;
+  onRestore: (snapshot: RevisionSnapshot) => Promise<void>;
+  refreshKey?: number;
+}
+
+const textFields = ['name', 'link', 'description', 'story', 'deeper_story'] as const;
+const listFields = ['tools', 'screenshots'] as const;
+
+export const RevisionHistory = ({ projectId, onRestore, refreshKey = 0 }: RevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [projectId, refreshKey]);
+
+  const loadRevisions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('project_revisions')
+        .select('id, revision_number, snapshot, created_at')
+        .eq('project_id', projectId)
+        .order('revision_number', { ascending: false });
+
+      if (error) {
+        console.error('Error loading revisions:', error);
+        return;
+      }
+
+      const rows = (data || []).map(row => ({
+        ...row,
+        snapshot: row.snapshot as unknown as RevisionSnapshot
+      }));
+      setRevisions(rows);
+      setSelectedId(rows[0]?.id || null);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async (revision: ProjectRevision) => {
+    if (!confirm(`Restore revision ${revision.revision_number}? Your current content will be kept in the history.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      await onRestore(revision.snapshot);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-muted-foreground">Loading history...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-muted-foreground">No revisions yet.</p>;
+  }
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = revisions[selectedIndex];
+  // Revisions are newest first, so the one it was changed from is the next entry
+  const previous = revisions[selectedIndex + 1];
+
+  const renderTextDiff = (field: typeof textFields[number]) => {
+    const before = previous?.snapshot[field] || '';
+    const after = selected.snapshot[field] || '';
+    if (previous && before === after) return null;
+
+    return (
+      <div key={field}>
+        <p className="text-xs font-medium text-muted-foreground mb-1">{editFieldLabels[field]}</p>
+        <p className="text-sm leading-relaxed whitespace-pre-line break-words">
+          {diffWords(before, after).map((part, index) => (
+            <span
+              key={index}
+              className={
+                part.type === 'added'
+                  ? 'bg-green-500/15 text-green-700 dark:text-green-300'
+                  : part.type === 'removed'
+                    ? 'bg-red-500/15 text-red-700 dark:text-red-300 line-through'
+                    : 'text-foreground/80'
+              }
+            >
+              {part.value}
+            </span>
+          ))}
+        </p>
+      </div>
+    );
+  };
+
+  const renderListDiff = (field: typeof listFields[number]) => {
+    const { added, removed, kept } = diffSets(previous?.snapshot[field] || [], selected.snapshot[field] || []);
+    if (previous && added.length === 0 && removed.length === 0) return null;
+
+    const items = [
+      ...added.map(value => ({ value, type: 'added' as const })),
+      ...removed.map(value => ({ value, type: 'removed' as const })),
+      ...kept.map(value => ({ value, type: 'same' as const }))
+    ];
+
+    return (
+      <div key={field}>
+        <p className="text-xs font-medium text-muted-foreground mb-1">{editFieldLabels[field]}</p>
+        <div className="flex flex-wrap gap-2">
+          {items.length === 0 && <span className="text-sm text-muted-foreground">None</span>}
+          {items.map(({ value, type }) =>
+            field === 'screenshots' ? (
+              <div
+                key={`${type}-${value}`}
+                className={`w-20 h-16 rounded-lg overflow-hidden border-2 ${
+                  type === 'added' ? 'border-green-500' : type === 'removed' ? 'border-red-500 opacity-50' : 'border-border/30'
+                }`}
+              >
+                <img src={value} alt="Screenshot" className="w-full h-full object-cover" />
+              </div>
+            ) : (
+              <Badge
+                key={`${type}-${value}`}
+                variant="secondary"
+                className={`text-xs font-light ${
+                  type === 'added' ? 'bg-green-500/15 text-green-700 dark:text-green-300' : type === 'removed' ? 'bg-red-500/15 text-red-700 dark:text-red-300 line-through' : ''
+                }`}
+              >
+                {type === 'added' ? '+ ' : type === 'removed' ? '− ' : ''}{value}
+              </Badge>
+            )
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Revision list */}
+      <ol className="space-y-1 md:border-r md:border-border/30 md:pr-4">
+        {revisions.map((revision, index) => (
+          <li key={revision.id}>
+            <button
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                revision.id === selectedId ? 'bg-[#fda085]/10 text-[#fda085]' : 'text-foreground/80 hover:bg-muted/50'
+              }`}
+            >
+              <span className="font-medium">Revision {revision.revision_number}</span>
+              {index === 0 && <span className="ml-2 text-xs text-muted-foreground">current</span>}
+              <span className="block text-xs text-muted-foreground">{new Date(revision.created_at).toLocaleString()}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {/* Field-by-field diff against the revision before it */}
+      {selected && (
+        <div className="md:col-span-2 space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {previous ? `Changes from revision ${previous.revision_number}` : 'Original submission'}
+            </p>
+            {selectedIndex > 0 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => handleRestore(selected)}
+                disabled={restoring}
+                className="border-border/30 hover:border-[#fda085]/50 hover:bg-[#fda085]/10 font-light"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                {restoring ? 'Restoring...' : 'Restore this version'}
+              </Button>
+            )}
+          </div>
+          {textFields.map(renderTextDiff)}
+          {listFields.map(renderListDiff)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { Bookmark, Lock, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+
+interface CollectionOption {
+  id: string;
+  name: string;
+  is_public: boolean;
+}
+
+interface SaveToCollectionProps {
+  projectId: string;
+  triggerClassName?: string;
+  compact?: boolean;
+}
+
+export const SaveToCollection = ({ projectId, triggerClassName = '', compact = false }: SaveToCollectionProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [collections, setCollections] = useState<CollectionOption[]>([]);
+  const [savedIn, setSavedIn] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newIsPublic, setNewIsPublic] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Collections are only loaded once the popover opens, so cards in a long list stay cheap
+  const loadCollections = async () => {
+    if (!user) return;
+
+    setLoading(true);
+
+    const [{ data: collectionsData, error: collectionsError }, { data: itemsData, error: itemsError }] = await Promise.all([
+      supabase
+        .from('collections')
+        .select('id, name, is_public')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('collection_items')
+        .select('collection_id, collections!inner(user_id)')
+        .eq('project_id', projectId)
+        .eq('collections.user_id', user.id)
+    ]);
+
+    setLoading(false);
+
+    if (collectionsError) console.error('Error loading collections:', collectionsError);
+    if (itemsError) console.error('Error loading saved collections:', itemsError);
+
+    setCollections(collectionsData || []);
+    setSavedIn(new Set((itemsData || []).map(item => item.collection_id)));
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next && !user) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to save projects to collections.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setOpen(next);
+    if (next) loadCollections();
+  };
+
+  const toggleCollection = async (collection: CollectionOption) => {
+    const saved = savedIn.has(collection.id);
+
+    const { error } = saved
+      ? await supabase
+          .from('collection_items')
+          .delete()
+          .eq('collection_id', collection.id)
+          .eq('project_id', projectId)
+      : await supabase
+          .from('collection_items')
+          .insert({ collection_id: collection.id, project_id: projectId });
+
+    if (error) {
+      console.error('Error updating collection:', error);
+      toast({
+        title: "Error",
+        description: `Failed to update "${collection.name}". Please try again.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSavedIn(prev => {
+      const next = new Set(prev);
+      if (saved) {
+        next.delete(collection.id);
+      } else {
+        next.add(collection.id);
+      }
+      return next;
+    });
+  };
+
+  const createCollection = async () => {
+    const name = newName.trim();
+    if (!user || !name) return;
+
+    setSaving(true);
+
+    const { data, error } = await supabase
+      .from('collections')
+      .insert({ user_id: user.id, name, is_public: newIsPublic })
+      .select('id, name, is_public')
+      .single();
+
+    if (error) {
+      setSaving(false);
+      console.error('Error creating collection:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the collection. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCollections(prev => [data, ...prev]);
+    setNewName('');
+    setNewIsPublic(false);
+    await toggleCollection(data);
+    setSaving(false);
+  };
+
+  const isSaved = savedIn.size > 0;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={(e) => e.stopPropagation()}
+          className={`${triggerClassName} border-white/20 hover:border-[#f6d365]/40 hover:bg-gradient-to-r hover:from-[#f6d365]/10 hover:to-[#fda085]/10 hover:text-[#fda085] transition-all duration-300 ${
+            isSaved ? 'text-[#f6d365] border-[#f6d365]/30' : ''
+          }`}
+        >
+          <Bookmark className={`h-3.5 w-3.5 ${compact ? '' : 'mr-1.5'} ${isSaved ? 'fill-current' : ''}`} />
+          {!compact && (isSaved ? 'Saved' : 'Save')}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        onClick={(e) => e.stopPropagation()}
+        className="w-72 bg-card/95 backdrop-blur-sm border-white/20 rounded-lg p-4 space-y-4"
+      >
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wide text-muted-foreground">Save to collection</Label>
+          <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+            {loading ? (
+              <p className="text-xs text-muted-foreground">Loading…</p>
+            ) : collections.length === 0 ? (
+              <p className="text-xs text-muted-foreground">You don't have any collections yet.</p>
+            ) : (
+              collections.map(collection => (
+                <label
+                  key={collection.id}
+                  className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-[#f6d365]/10"
+                >
+                  <Checkbox
+                    checked={savedIn.has(collection.id)}
+                    onCheckedChange={() => toggleCollection(collection)}
+                    className="border-white/30 data-[state=checked]:bg-[#f6d365] data-[state=checked]:border-[#f6d365]"
+                  />
+                  <span className="flex-1 truncate">{collection.name}</span>
+                  {!collection.is_public && <Lock className="h-3 w-3 text-muted-foreground" aria-label="Private" />}
+                </label>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2 border-t border-white/10 pt-3">
+          <Label htmlFor={`new-collection-${projectId}`} className="text-xs uppercase tracking-wide text-muted-foreground">
+            New collection
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id={`new-collection-${projectId}`}
+              value={newName}
+              maxLength={80}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') createCollection();
+              }}
+              placeholder="e.g. Weekend inspiration"
+              className="h-8 text-sm bg-background/40 border-white/10"
+            />
+            <Button
+              size="sm"
+              onClick={createCollection}
+              disabled={saving || !newName.trim()}
+              className="h-8 px-2 bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-gray-900"
+              aria-label="Create collection"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor={`new-collection-public-${projectId}`} className="text-sm font-normal">Public</Label>
+            <Switch id={`new-collection-public-${projectId}`} checked={newIsPublic} onCheckedChange={setNewIsPublic} />
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,144 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import { findTool, toolCategoryLabels, type ToolCategory, type ToolRecord } from "@/lib/tools";
+import { Check, Plus, Search, X } from "lucide-react";
+
+interface ToolPickerProps {
+  value: string[];
+  onChange: (tools: string[]) => void;
+}
+
+export const ToolPicker = ({ value, onChange }: ToolPickerProps) => {
+  const [tools, setTools] = useState<ToolRecord[]>([]);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    const fetchTools = async () => {
+      const { data, error } = await supabase
+        .from('tools')
+        .select('*')
+        .order('name');
+
+      if (error) {
+        console.error('Error fetching tools:', error);
+        return;
+      }
+
+      setTools(data || []);
+    };
+
+    fetchTools();
+  }, []);
+
+  const toggleTool = (name: string) => {
+    onChange(value.includes(name) ? value.filter(t => t !== name) : [...value, name]);
+  };
+
+  // Typed names that match an alias resolve to the canonical tool
+  const addTypedTool = () => {
+    const name = search.trim();
+    if (!name) return;
+
+    const canonical = findTool(name, tools)?.name ?? name;
+    if (!value.includes(canonical)) {
+      onChange([...value, canonical]);
+    }
+    setSearch("");
+  };
+
+  const typedMatch = search.trim() ? findTool(search, tools) : undefined;
+  const categories = Object.keys(toolCategoryLabels) as ToolCategory[];
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-start border-white/20 hover:border-[#f6d365]/40 hover:bg-gradient-to-r hover:from-[#f6d365]/5 hover:to-[#fda085]/5 bg-background/60 backdrop-blur-sm font-light rounded-xl transition-all duration-300 text-muted-foreground"
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Search AI tools, e.g. "GPT-4" or "Cursor"...
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[var(--radix-popover-trigger-width)] p-0 bg-card/95 backdrop-blur-sm border-white/20 rounded-xl" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Type a tool name..."
+              value={search}
+              onValueChange={setSearch}
+              onKeyDown={(e) => {
+                // Enter with nothing highlighted adds the typed name
+                if (e.key === 'Enter' && search.trim() && !typedMatch) {
+                  e.preventDefault();
+                  addTypedTool();
+                }
+              }}
+            />
+            <CommandList>
+              <CommandEmpty>No registered tool matches.</CommandEmpty>
+              {categories.map((category) => {
+                const categoryTools = tools.filter(tool => tool.category === category);
+                if (categoryTools.length === 0) return null;
+
+                return (
+                  <CommandGroup key={category} heading={toolCategoryLabels[category]}>
+                    {categoryTools.map((tool) => (
+                      <CommandItem
+                        key={tool.id}
+                        value={tool.name}
+                        keywords={tool.aliases}
+                        onSelect={() => {
+                          toggleTool(tool.name);
+                          setSearch("");
+                        }}
+                      >
+                        <Check className={`h-4 w-4 mr-2 ${value.includes(tool.name) ? 'opacity-100 text-[#f6d365]' : 'opacity-0'}`} />
+                        {tool.name}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+              {search.trim() && !typedMatch && (
+                <CommandGroup heading="Not in the list">
+                  <CommandItem value={`add:${search}`} onSelect={addTypedTool}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add "{search.trim()}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {/* Selected Tools */}
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((tool) => (
+            <Badge
+              key={tool}
+              variant="secondary"
+              className="bg-gradient-to-r from-[#f6d365]/20 to-[#fda085]/20 text-foreground/90 border-[#f6d365]/30 flex items-center gap-1 font-medium rounded-full px-3 py-1"
+            >
+              {tool}
+              <X
+                className="h-3 w-3 cursor-pointer hover:text-destructive transition-colors duration-200"
+                onClick={() => toggleTool(tool)}
+              />
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -21,6 +21,8 @@ interface AuthContextType {
   user: User | null;
   session: Session | null;
   profile: Profile | null;
+  isModerator: boolean;
+  roleLoading: boolean;
   loading: boolean;
   signUp: (email: string, password: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
@@ -34,6 +36,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [isModerator, setIsModerator] = useState(false);
+  const [roleLoading, setRoleLoading] = useState(true);
   const [loading, setLoading] = useState(true);
 
   // Simple function to fetch profile
@@ -68,6 +72,26 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Check whether the user holds an admin or moderator role
+  const fetchModeratorStatus = async (userId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('is_moderator', { _user_id: userId });
+
+      if (error) {
+        console.error('❌ Role check error:', error);
+        setIsModerator(false);
+        return;
+      }
+
+      setIsModerator(!!data);
+    } catch (error) {
+      console.error('❌ Role check failed:', error);
+      setIsModerator(false);
+    } finally {
+      setRoleLoading(false);
+    }
+  };
+
   // Initialize auth state
   useEffect(() => {
     let mounted = true;
@@ -85,14 +109,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // Defer profile fetching to avoid blocking auth state updates
       if (session?.user) {
         console.log('✅ User logged in:', session.user.id);
+        setRoleLoading(true);
         setTimeout(() => {
           if (mounted) {
             fetchProfile(session.user.id);
+            fetchModeratorStatus(session.user.id);
           }
         }, 0);
       } else {
         console.log('ℹ️ User logged out');
         setProfile(null);
+        setIsModerator(false);
+        setRoleLoading(false);
       }
       
       setLoading(false);
@@ -111,14 +139,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           
           if (session?.user) {
             console.log('✅ Found existing session for user:', session.user.id);
+            setRoleLoading(true);
             setTimeout(() => {
               if (mounted) {
                 fetchProfile(session.user.id);
+                fetchModeratorStatus(session.user.id);
               }
             }, 0);
           } else {
             console.log('ℹ️ No existing session found');
             setProfile(null);
+            setIsModerator(false);
+            setRoleLoading(false);
           }
           setLoading(false);
         }
@@ -128,6 +160,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           setSession(null);
           setUser(null);
           setProfile(null);
+          setIsModerator(false);
+          setRoleLoading(false);
           setLoading(false);
         }
       }
@@ -184,6 +218,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // Clear state immediately
       setUser(null);
       setProfile(null);
+      setIsModerator(false);
+      setRoleLoading(false);
       
       // Sign out from Supabase
       await supabase.auth.signOut();
@@ -205,6 +241,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     user,
     session,
     profile,
+    isModerator,
+    roleLoading,
     loading,
     signUp,
     signIn,
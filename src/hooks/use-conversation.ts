@@ -0,0 +1,483 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { blockUser, getBlockStatus, unblockUser, type BlockStatus } from '@/lib/blocks';
+import {
+  fetchMessages,
+  findConversation,
+  getOrCreateConversation,
+  insertMessage,
+  isMutedBy,
+  markConversationRead,
+  messageAttachments,
+  removeAttachments,
+  reportConversation,
+  sendTyping,
+  setConversationMuted,
+  subscribeToConversation,
+  touchConversation,
+  uploadAttachment,
+  type Conversation,
+  type Message
+} from '@/lib/conversations';
+
+// Messages that haven't reached the database yet carry a status; saved ones don't.
+// Unsent messages also hold the files still waiting to be uploaded.
+export interface ChatMessage extends Message {
+  status?: 'sending' | 'failed';
+  files?: File[];
+}
+
+export interface ConversationProfile {
+  username: string;
+  avatar_url: string | null;
+}
+
+const PAGE_SIZE = 30;
+const SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+// Typing broadcasts are throttled on the sending side and expire on the receiving side
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 4000;
+const LAST_SEEN_HEARTBEAT_MS = 60000;
+
+const NOT_BLOCKED: BlockStatus = { blocked: false, blockedByMe: false };
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isLocal = (message: ChatMessage) => !!message.status;
+
+const compareMessages = (a: Message, b: Message) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime() || a.id.localeCompare(b.id);
+
+// Adds or updates saved rows in order; unsent messages stay at the end until their own
+// row arrives, which carries the same id
+const mergeMessages = (messages: ChatMessage[], rows: Message[]) => {
+  const saved = new Map(messages.filter(message => !isLocal(message)).map(message => [message.id, message]));
+  rows.forEach(row => saved.set(row.id, row));
+  return [
+    ...Array.from(saved.values()).sort(compareMessages),
+    ...messages.filter(message => isLocal(message) && !saved.has(message.id))
+  ];
+};
+
+// Swaps an optimistic message for the saved row, which realtime may already have delivered
+const settleMessage = (messages: ChatMessage[], localId: string, saved: Message) =>
+  mergeMessages(messages.filter(message => message.id !== localId), [saved]);
+
+// The conversation between the signed-in user and otherUserId about a project. The
+// conversation itself is only created when the first message is sent.
+export const useConversation = (projectId: string, otherUserId: string, enabled = true) => {
+  const { user } = useAuth();
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [otherProfile, setOtherProfile] = useState<ConversationProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [otherOnline, setOtherOnline] = useState(false);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const [otherLastSeenAt, setOtherLastSeenAt] = useState<string | null>(null);
+  const [blockStatus, setBlockStatus] = useState<BlockStatus>(NOT_BLOCKED);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const otherOnlineRef = useRef(false);
+  // Sends read the latest conversation without waiting for a re-render
+  const conversationRef = useRef<Conversation | null>(null);
+  // Which thread the hook is showing, so a send that outlives a switch leaves it alone
+  const threadRef = useRef('');
+  const userId = user?.id;
+
+  const loadOtherProfile = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('username, avatar_url')
+      .eq('user_id', otherUserId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading profile:', error);
+      return;
+    }
+    setOtherProfile(data);
+  }, [otherUserId]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    loadOtherProfile();
+    window.addEventListener('profile-updated', loadOtherProfile);
+    return () => {
+      window.removeEventListener('profile-updated', loadOtherProfile);
+    };
+  }, [enabled, loadOtherProfile]);
+
+  useEffect(() => {
+    setBlockStatus(NOT_BLOCKED);
+    if (!enabled || !userId) return;
+
+    let cancelled = false;
+    getBlockStatus(userId, otherUserId)
+      .then(status => {
+        if (!cancelled) setBlockStatus(status);
+      })
+      .catch(error => {
+        console.error('Error loading block status:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId, otherUserId]);
+
+  useEffect(() => {
+    threadRef.current = `${projectId}:${otherUserId}`;
+    conversationRef.current = null;
+    setConversation(null);
+    setMessages([]);
+    setHasOlder(false);
+    otherOnlineRef.current = false;
+    setOtherOnline(false);
+    setOtherTyping(false);
+    setOtherLastSeenAt(null);
+
+    if (!enabled || !userId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    findConversation(projectId, userId, otherUserId)
+      .then(found => {
+        if (cancelled) return;
+        conversationRef.current = found;
+        setConversation(found);
+        if (found) {
+          setOtherLastSeenAt(found.creator_id === otherUserId ? found.creator_last_seen_at : found.sender_last_seen_at);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading conversation:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load conversation.",
+          variant: "destructive"
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId, projectId, otherUserId]);
+
+  // Read receipts are stamped on the server for the whole conversation at once
+  const markRead = useCallback((conversationId: string, rows: Message[]) => {
+    if (!rows.some(message => !message.read_at && message.sender_id !== userId)) return;
+
+    markConversationRead(conversationId).catch(error => {
+      console.error('Error marking messages as read:', error);
+    });
+  }, [userId]);
+
+  const conversationId = conversation?.id;
+
+  useEffect(() => {
+    if (!conversationId || !userId) return;
+
+    let cancelled = false;
+
+    // Fetches the newest page. Later calls only happen while realtime is down, and merge
+    // into what's loaded rather than replacing older pages.
+    const loadLatest = async (initial: boolean) => {
+      try {
+        const rows = await fetchMessages(conversationId, PAGE_SIZE);
+        if (cancelled) return;
+        setMessages(prev => mergeMessages(prev, rows));
+        if (initial) setHasOlder(rows.length === PAGE_SIZE);
+        markRead(conversationId, rows);
+      } catch (error) {
+        console.error('Error loading messages:', error);
+      }
+    };
+
+    loadLatest(true);
+
+    const unsubscribe = subscribeToConversation(conversationId, userId, {
+      onMessage: row => {
+        setMessages(prev => mergeMessages(prev, [row]));
+        markRead(conversationId, [row]);
+        // A new message ends the other person's typing
+        if (row.sender_id === otherUserId) setOtherTyping(false);
+      },
+      onResync: () => loadLatest(false),
+      onTyping: typingUserId => {
+        if (typingUserId !== otherUserId) return;
+        setOtherTyping(true);
+        if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = setTimeout(() => setOtherTyping(false), TYPING_TIMEOUT_MS);
+      },
+      onPresence: onlineUserIds => {
+        const online = onlineUserIds.includes(otherUserId);
+        // Leaving the conversation is the moment they were last seen
+        if (otherOnlineRef.current && !online) setOtherLastSeenAt(new Date().toISOString());
+        otherOnlineRef.current = online;
+        setOtherOnline(online);
+        if (!online) setOtherTyping(false);
+      }
+    });
+
+    const touch = () => {
+      touchConversation(conversationId).catch(error => {
+        console.error('Error updating last seen:', error);
+      });
+    };
+
+    touch();
+    const heartbeat = setInterval(touch, LAST_SEEN_HEARTBEAT_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(heartbeat);
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      unsubscribe();
+      touch();
+    };
+  }, [conversationId, userId, otherUserId, markRead]);
+
+  const loadOlder = async () => {
+    const oldest = messages.find(message => !isLocal(message));
+    if (!conversationId || !oldest || !hasOlder || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const rows = await fetchMessages(conversationId, PAGE_SIZE, oldest);
+      setMessages(prev => mergeMessages(prev, rows));
+      setHasOlder(rows.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const deliver = async (pending: ChatMessage) => {
+    if (!userId) return;
+
+    // The message stays with the thread it was written in, even if the hook moves on
+    const thread = `${projectId}:${otherUserId}`;
+    const isCurrentThread = () => threadRef.current === thread;
+
+    // Files that made it to storage stay uploaded, so a retry picks up where this one stopped
+    const attachments = [...messageAttachments(pending)];
+    const files = [...(pending.files ?? [])];
+    let conversationId = pending.conversation_id;
+
+    for (let attempt = 1; attempt <= SEND_ATTEMPTS; attempt++) {
+      try {
+        if (!conversationId) {
+          const created = await getOrCreateConversation(projectId, otherUserId);
+          conversationId = created.id;
+          if (isCurrentThread() && !conversationRef.current) {
+            conversationRef.current = created;
+            setConversation(created);
+          }
+        }
+
+        while (files.length > 0) {
+          attachments.push(await uploadAttachment(conversationId, files[0]));
+          files.shift();
+        }
+
+        const saved = await insertMessage(pending.id, conversationId, userId, pending.content, attachments);
+        if (isCurrentThread()) setMessages(prev => settleMessage(prev, pending.id, saved));
+        return;
+      } catch (error) {
+        console.error(`Error sending message (attempt ${attempt}):`, error);
+        if (attempt < SEND_ATTEMPTS) await wait(RETRY_DELAY_MS * attempt);
+      }
+    }
+
+    if (!isCurrentThread()) return;
+
+    setMessages(prev => prev.map(message =>
+      message.id === pending.id
+        ? { ...message, conversation_id: conversationId, attachments, files, status: 'failed' }
+        : message
+    ));
+    toast({
+      title: "Error",
+      description: "Failed to send message. Tap it to try again.",
+      variant: "destructive"
+    });
+  };
+
+  // Shows the message right away and keeps retrying in the background
+  const sendMessage = (content: string, files: File[] = []) => {
+    const text = content.trim();
+    if ((!text && files.length === 0) || !userId || blockStatus.blocked) return;
+
+    const now = new Date().toISOString();
+    const pending: ChatMessage = {
+      id: crypto.randomUUID(),
+      conversation_id: conversationRef.current?.id ?? '',
+      sender_id: userId,
+      content: text,
+      attachments: [],
+      files,
+      is_read: false,
+      read_at: null,
+      created_at: now,
+      updated_at: now,
+      status: 'sending'
+    };
+
+    setMessages(prev => [...prev, pending]);
+    deliver(pending);
+  };
+
+  const notifyTyping = () => {
+    const now = Date.now();
+    if (!conversationId || !userId || now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+
+    lastTypingSentRef.current = now;
+    sendTyping(conversationId, userId);
+  };
+
+  // Drops a message that couldn't be sent, along with anything it already uploaded
+  const discardMessage = (messageId: string) => {
+    const failed = messages.find(message => message.id === messageId && message.status === 'failed');
+    if (!failed) return;
+
+    setMessages(prev => prev.filter(message => message.id !== messageId));
+    removeAttachments(messageAttachments(failed)).catch(error => {
+      console.error('Error removing attachments:', error);
+    });
+  };
+
+  const muted = !!conversation && !!userId && isMutedBy(conversation, userId);
+
+  const toggleMute = async () => {
+    if (!conversation || !userId) return;
+
+    const nextMuted = !muted;
+    try {
+      await setConversationMuted(conversation.id, nextMuted);
+      const updated = conversation.creator_id === userId
+        ? { ...conversation, creator_muted: nextMuted }
+        : { ...conversation, sender_muted: nextMuted };
+      conversationRef.current = updated;
+      setConversation(updated);
+      toast({
+        title: nextMuted ? "Conversation muted" : "Conversation unmuted",
+        description: nextMuted
+          ? "New messages here won't count towards your unread badge."
+          : "New messages here will show in your unread badge again."
+      });
+    } catch (error) {
+      console.error('Error updating mute:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update notification settings.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const block = async () => {
+    if (!userId) return;
+
+    try {
+      await blockUser(userId, otherUserId);
+      setBlockStatus({ blocked: true, blockedByMe: true });
+      setOtherTyping(false);
+      toast({
+        title: "User blocked",
+        description: "Neither of you can send messages until you unblock them."
+      });
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to block this user.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const unblock = async () => {
+    if (!userId) return;
+
+    try {
+      await unblockUser(userId, otherUserId);
+      // They may have blocked the user in turn
+      setBlockStatus(await getBlockStatus(userId, otherUserId));
+      toast({
+        title: "User unblocked",
+        description: "You can message each other again."
+      });
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unblock this user.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const report = async (reason: string) => {
+    if (!conversation) return false;
+
+    try {
+      await reportConversation(conversation.id, reason.trim());
+      toast({
+        title: "Report sent",
+        description: "Thanks for letting us know. A moderator will review this conversation."
+      });
+      return true;
+    } catch (error) {
+      console.error('Error reporting conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send the report.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const retryMessage = (messageId: string) => {
+    const failed = messages.find(message => message.id === messageId && message.status === 'failed');
+    if (!failed || blockStatus.blocked) return;
+
+    setMessages(prev => prev.map(message => message.id === messageId ? { ...message, status: 'sending' } : message));
+    deliver({ ...failed, status: 'sending' });
+  };
+
+  return {
+    conversation,
+    messages,
+    otherProfile,
+    loading,
+    hasOlder,
+    loadingOlder,
+    loadOlder,
+    otherOnline,
+    otherTyping,
+    otherLastSeenAt,
+    notifyTyping,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    muted,
+    toggleMute,
+    blocked: blockStatus.blocked,
+    blockedByMe: blockStatus.blockedByMe,
+    block,
+    unblock,
+    report
+  };
+};
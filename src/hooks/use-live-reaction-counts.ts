@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { sameReactionCounts, toReactionCounts, type ReactionCounts } from '@/lib/reactions';
+
+// How long to collect counter changes before handing them over in one batch
+const FLUSH_DELAY_MS = 400;
+// Realtime accepts at most 100 values in an `in` filter
+const FILTER_CHUNK_SIZE = 100;
+
+// Streams project_stats changes for the given projects, keeping only the latest counts per
+// project until the next flush. The same row also changes on every counted view, so
+// updates that leave the reaction counts as they were are dropped.
+export const useLiveReactionCounts = (
+  onCounts: (counts: Record<string, ReactionCounts>) => void,
+  projectIds: string[]
+) => {
+  const onCountsRef = useRef(onCounts);
+  onCountsRef.current = onCounts;
+  const lastCountsRef = useRef<Record<string, ReactionCounts>>({});
+  const idsKey = Array.from(new Set(projectIds)).sort().join(',');
+
+  useEffect(() => {
+    if (!idsKey) return;
+
+    let pending: Record<string, ReactionCounts> = {};
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      const batch = pending;
+      pending = {};
+      onCountsRef.current(batch);
+    };
+
+    const ids = idsKey.split(',');
+    const channel = supabase.channel(`project-stats-${crypto.randomUUID()}`);
+
+    for (let start = 0; start < ids.length; start += FILTER_CHUNK_SIZE) {
+      const chunk = ids.slice(start, start + FILTER_CHUNK_SIZE);
+      channel.on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'project_stats',
+          filter: chunk.length === 1 ? `project_id=eq.${chunk[0]}` : `project_id=in.(${chunk.join(',')})`
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+
+          const projectId: string = payload.new.project_id;
+          const counts = toReactionCounts(payload.new.reaction_counts);
+          const last = lastCountsRef.current[projectId];
+          if (last && sameReactionCounts(last, counts)) return;
+
+          lastCountsRef.current[projectId] = counts;
+          pending[projectId] = counts;
+          if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+        }
+      );
+    }
+
+    channel.subscribe();
+
+    return () => {
+      if (flushTimer) clearTimeout(flushTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [idsKey]);
+};
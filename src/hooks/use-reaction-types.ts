@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { ReactionType } from '@/lib/reactions';
+
+// Shared across every card on the page; reaction types rarely change within a session
+let reactionTypesRequest: Promise<ReactionType[]> | null = null;
+
+const loadReactionTypes = () => {
+  if (!reactionTypesRequest) {
+    reactionTypesRequest = Promise.resolve(
+      supabase
+        .from('reaction_types')
+        .select('*')
+        .eq('active', true)
+        .order('sort_order', { ascending: true })
+    ).then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching reaction types:', error);
+        // Let the next caller try again
+        reactionTypesRequest = null;
+      }
+      return data || [];
+    });
+  }
+  return reactionTypesRequest;
+};
+
+export const useReactionTypes = () => {
+  const [reactionTypes, setReactionTypes] = useState<ReactionType[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReactionTypes().then(types => {
+      if (!cancelled) setReactionTypes(types);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return reactionTypes;
+};
@@ -14,58 +14,223 @@ export type Database = {
   }
   public: {
     Tables: {
+      collection_items: {
+        Row: {
+          added_at: string
+          collection_id: string
+          note: string | null
+          position: number
+          project_id: string
+        }
+        Insert: {
+          added_at?: string
+          collection_id: string
+          note?: string | null
+          position?: number
+          project_id: string
+        }
+        Update: {
+          added_at?: string
+          collection_id?: string
+          note?: string | null
+          position?: number
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_items_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_items_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_items_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_public: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_public?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_public?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      conversation_reports: {
+        Row: {
+          conversation_id: string | null
+          created_at: string
+          excerpt: Json
+          id: string
+          reason: string
+          reported_user_id: string
+          reporter_id: string
+          resolution_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          conversation_id?: string | null
+          created_at?: string
+          excerpt?: Json
+          id?: string
+          reason: string
+          reported_user_id: string
+          reporter_id: string
+          resolution_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          conversation_id?: string | null
+          created_at?: string
+          excerpt?: Json
+          id?: string
+          reason?: string
+          reported_user_id?: string
+          reporter_id?: string
+          resolution_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_reports_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           created_at: string
           creator_id: string
+          creator_last_seen_at: string | null
+          creator_muted: boolean
           id: string
           project_id: string
           sender_id: string
+          sender_last_seen_at: string | null
+          sender_muted: boolean
           updated_at: string
         }
         Insert: {
           created_at?: string
           creator_id: string
+          creator_last_seen_at?: string | null
+          creator_muted?: boolean
           id?: string
           project_id: string
           sender_id: string
+          sender_last_seen_at?: string | null
+          sender_muted?: boolean
           updated_at?: string
         }
         Update: {
           created_at?: string
           creator_id?: string
+          creator_last_seen_at?: string | null
+          creator_muted?: boolean
           id?: string
           project_id?: string
           sender_id?: string
+          sender_last_seen_at?: string | null
+          sender_muted?: boolean
           updated_at?: string
         }
         Relationships: []
       }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
+          attachments: Json
           content: string
           conversation_id: string
           created_at: string
           id: string
           is_read: boolean
+          read_at: string | null
           sender_id: string
           updated_at: string
         }
         Insert: {
+          attachments?: Json
           content: string
           conversation_id: string
           created_at?: string
           id?: string
           is_read?: boolean
+          read_at?: string | null
           sender_id: string
           updated_at?: string
         }
         Update: {
+          attachments?: Json
           content?: string
           conversation_id?: string
           created_at?: string
           id?: string
           is_read?: boolean
+          read_at?: string | null
           sender_id?: string
           updated_at?: string
         }
@@ -91,7 +256,7 @@ export type Database = {
           twitter: string | null
           updated_at: string
           user_id: string
-          username: string | null
+          username: string
           website: string | null
         }
         Insert: {
@@ -105,7 +270,7 @@ export type Database = {
           twitter?: string | null
           updated_at?: string
           user_id: string
-          username?: string | null
+          username: string
           website?: string | null
         }
         Update: {
@@ -119,11 +284,126 @@ export type Database = {
           twitter?: string | null
           updated_at?: string
           user_id?: string
-          username?: string | null
+          username?: string
           website?: string | null
         }
         Relationships: []
       }
+      project_comments: {
+        Row: {
+          body: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          parent_id: string | null
+          project_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          parent_id?: string | null
+          project_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          parent_id?: string | null
+          project_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "project_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_comments_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_comments_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_edits: {
+        Row: {
+          changes: Json
+          created_at: string
+          feedback: string | null
+          flagged_fields: string[]
+          id: string
+          project_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          changes: Json
+          created_at?: string
+          feedback?: string | null
+          flagged_fields?: string[]
+          id?: string
+          project_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          changes?: Json
+          created_at?: string
+          feedback?: string | null
+          flagged_fields?: string[]
+          id?: string
+          project_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_edits_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_edits_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_reactions: {
         Row: {
           created_at: string
@@ -161,6 +441,181 @@ export type Database = {
             referencedRelation: "projects_public"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "project_reactions_reaction_type_fkey"
+            columns: ["reaction_type"]
+            isOneToOne: false
+            referencedRelation: "reaction_types"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      project_reviews: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          feedback: string | null
+          from_status: string | null
+          id: string
+          project_id: string
+          to_status: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          feedback?: string | null
+          from_status?: string | null
+          id?: string
+          project_id: string
+          to_status: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          feedback?: string | null
+          from_status?: string | null
+          id?: string
+          project_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_reviews_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_reviews_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_revisions: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          project_id: string
+          revision_number: number
+          snapshot: Json
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          project_id: string
+          revision_number: number
+          snapshot: Json
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          project_id?: string
+          revision_number?: number
+          snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_revisions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_revisions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_stats: {
+        Row: {
+          project_id: string
+          reaction_count: number
+          reaction_counts: Json
+          trending_at: string
+          trending_score: number
+          updated_at: string
+          view_count: number
+        }
+        Insert: {
+          project_id: string
+          reaction_count?: number
+          reaction_counts?: Json
+          trending_at?: string
+          trending_score?: number
+          updated_at?: string
+          view_count?: number
+        }
+        Update: {
+          project_id?: string
+          reaction_count?: number
+          reaction_counts?: Json
+          trending_at?: string
+          trending_score?: number
+          updated_at?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_stats_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_stats_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_view_daily: {
+        Row: {
+          day: string
+          project_id: string
+          signed_in_view_count: number
+          view_count: number
+        }
+        Insert: {
+          day: string
+          project_id: string
+          signed_in_view_count?: number
+          view_count?: number
+        }
+        Update: {
+          day?: string
+          project_id?: string
+          signed_in_view_count?: number
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_view_daily_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_view_daily_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects_public"
+            referencedColumns: ["id"]
+          },
         ]
       }
       project_views: {
@@ -168,6 +623,7 @@ export type Database = {
           created_at: string
           id: string
           project_id: string
+          session_id: string | null
           viewed_at: string
           viewer_id: string | null
         }
@@ -175,6 +631,7 @@ export type Database = {
           created_at?: string
           id?: string
           project_id: string
+          session_id?: string | null
           viewed_at?: string
           viewer_id?: string | null
         }
@@ -182,6 +639,7 @@ export type Database = {
           created_at?: string
           id?: string
           project_id?: string
+          session_id?: string | null
           viewed_at?: string
           viewer_id?: string | null
         }
@@ -189,6 +647,7 @@ export type Database = {
       }
       projects: {
         Row: {
+          allows_comments: boolean
           allows_contact: boolean
           created_at: string
           creator_name: string
@@ -198,7 +657,11 @@ export type Database = {
           id: string
           link: string
           name: string
+          review_feedback: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           screenshots: string[] | null
+          search_vector: unknown | null
           status: string | null
           story: string
           tools: string[]
@@ -206,6 +669,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          allows_comments?: boolean
           allows_contact?: boolean
           created_at?: string
           creator_name: string
@@ -215,7 +679,11 @@ export type Database = {
           id?: string
           link: string
           name: string
+          review_feedback?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           screenshots?: string[] | null
+          search_vector?: unknown | null
           status?: string | null
           story: string
           tools: string[]
@@ -223,6 +691,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          allows_comments?: boolean
           allows_contact?: boolean
           created_at?: string
           creator_name?: string
@@ -232,7 +701,11 @@ export type Database = {
           id?: string
           link?: string
           name?: string
+          review_feedback?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           screenshots?: string[] | null
+          search_vector?: unknown | null
           status?: string | null
           story?: string
           tools?: string[]
@@ -241,10 +714,169 @@ export type Database = {
         }
         Relationships: []
       }
+      reaction_types: {
+        Row: {
+          active: boolean
+          created_at: string
+          emoji: string
+          icon: string | null
+          key: string
+          label: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          emoji: string
+          icon?: string | null
+          key: string
+          label: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          emoji?: string
+          icon?: string | null
+          key?: string
+          label?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      review_rules: {
+        Row: {
+          enabled: boolean
+          field: string
+          mode: string
+          threshold: number | null
+          updated_at: string
+        }
+        Insert: {
+          enabled?: boolean
+          field: string
+          mode: string
+          threshold?: number | null
+          updated_at?: string
+        }
+        Update: {
+          enabled?: boolean
+          field?: string
+          mode?: string
+          threshold?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tool_aliases: {
+        Row: {
+          alias_key: string
+          tool_id: string
+        }
+        Insert: {
+          alias_key: string
+          tool_id: string
+        }
+        Update: {
+          alias_key?: string
+          tool_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tool_aliases_tool_id_fkey"
+            columns: ["tool_id"]
+            isOneToOne: false
+            referencedRelation: "tools"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tools: {
+        Row: {
+          aliases: string[]
+          category: Database["public"]["Enums"]["tool_category"]
+          created_at: string
+          description: string | null
+          homepage: string | null
+          icon_url: string | null
+          id: string
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          category?: Database["public"]["Enums"]["tool_category"]
+          created_at?: string
+          description?: string | null
+          homepage?: string | null
+          icon_url?: string | null
+          id?: string
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          category?: Database["public"]["Enums"]["tool_category"]
+          created_at?: string
+          description?: string | null
+          homepage?: string | null
+          icon_url?: string | null
+          id?: string
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       projects_public: {
         Row: {
+          allows_comments: boolean | null
           allows_contact: boolean | null
           created_at: string | null
           creator_name: string | null
@@ -253,14 +885,18 @@ export type Database = {
           id: string | null
           link: string | null
           name: string | null
+          reaction_count: number | null
+          reaction_counts: Json | null
           screenshots: string[] | null
           status: string | null
           story: string | null
           tools: string[] | null
           updated_at: string | null
           user_id: string | null
+          view_count: number | null
         }
         Insert: {
+          allows_comments?: boolean | null
           allows_contact?: boolean | null
           created_at?: string | null
           creator_name?: string | null
@@ -269,14 +905,18 @@ export type Database = {
           id?: string | null
           link?: string | null
           name?: string | null
+          reaction_count?: number | null
+          reaction_counts?: Json | null
           screenshots?: string[] | null
           status?: string | null
           story?: string | null
           tools?: string[] | null
           updated_at?: string | null
           user_id?: string | null
+          view_count?: number | null
         }
         Update: {
+          allows_comments?: boolean | null
           allows_contact?: boolean | null
           created_at?: string | null
           creator_name?: string | null
@@ -285,21 +925,293 @@ export type Database = {
           id?: string | null
           link?: string | null
           name?: string | null
+          reaction_count?: number | null
+          reaction_counts?: Json | null
           screenshots?: string[] | null
           status?: string | null
           story?: string | null
           tools?: string[] | null
           updated_at?: string | null
           user_id?: string | null
+          view_count?: number | null
         }
         Relationships: []
       }
     }
     Functions: {
-      [_ in never]: never
+      can_view_project_analytics: {
+        Args: { _project_id: string }
+        Returns: boolean
+      }
+      canonicalize_tools: {
+        Args: { _tools: string[] }
+        Returns: string[]
+      }
+      delete_project_comment: {
+        Args: { _comment_id: string }
+        Returns: undefined
+      }
+      gallery_filter_matches: {
+        Args: {
+          _from: string
+          _has_screenshots: boolean
+          _project_created_at: string
+          _project_screenshots: string[]
+          _project_tools: string[]
+          _to: string
+          _tool_mode: string
+          _tools: string[]
+        }
+        Returns: boolean
+      }
+      generate_username: {
+        Args: { _user_id?: string; _value: string }
+        Returns: string
+      }
+      get_creator_stats: {
+        Args: { _user_id: string }
+        Returns: {
+          project_count: number
+          reaction_count: number
+          view_count: number
+        }[]
+      }
+      get_gallery_projects: {
+        Args: {
+          _as_of?: string
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _cursor_score?: number
+          _following_only?: boolean
+          _from?: string
+          _has_screenshots?: boolean
+          _limit?: number
+          _search?: string
+          _sort?: string
+          _to?: string
+          _tool_mode?: string
+          _tools?: string[]
+        }
+        Returns: {
+          allows_contact: boolean
+          created_at: string
+          creator_name: string
+          deeper_story: string
+          description: string
+          id: string
+          link: string
+          name: string
+          reaction_counts: Json
+          screenshots: string[]
+          sort_score: number
+          status: string
+          story: string
+          tools: string[]
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      get_gallery_tool_counts: {
+        Args: {
+          _from?: string
+          _has_screenshots?: boolean
+          _to?: string
+          _tool_mode?: string
+          _tools?: string[]
+        }
+        Returns: {
+          project_count: number
+          tool: string
+        }[]
+      }
+      get_or_create_conversation: {
+        Args: { _other_user_id: string; _project_id: string }
+        Returns: {
+          created_at: string
+          creator_id: string
+          creator_last_seen_at: string | null
+          creator_muted: boolean
+          id: string
+          project_id: string
+          sender_id: string
+          sender_last_seen_at: string | null
+          sender_muted: boolean
+          updated_at: string
+        }
+      }
+      get_project_audience: {
+        Args: { _project_id: string }
+        Returns: {
+          repeat_viewers: number
+          unique_viewers: number
+        }[]
+      }
+      get_project_daily_activity: {
+        Args: { _days?: number; _project_id: string }
+        Returns: {
+          conversation_count: number
+          day: string
+          reaction_count: number
+          signed_in_view_count: number
+          view_count: number
+        }[]
+      }
+      get_project_engagement: {
+        Args: {
+          _as_of?: string
+        }
+        Returns: {
+          heart_count: number
+          project_id: string
+          reaction_count: number
+          trending_score: number
+          view_count: number
+        }[]
+      }
+      get_tool_pairings: {
+        Args: { _limit?: number; _tool: string }
+        Returns: {
+          project_count: number
+          tool: string
+        }[]
+      }
+      get_tool_stats: {
+        Args: { _tool: string }
+        Returns: {
+          creator_count: number
+          project_count: number
+          reaction_count: number
+          view_count: number
+        }[]
+      }
+      get_tool_top_creators: {
+        Args: { _limit?: number; _tool: string }
+        Returns: {
+          creator_name: string
+          project_count: number
+          reaction_count: number
+          user_id: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_blocked_with: {
+        Args: { _other_user_id: string }
+        Returns: boolean
+      }
+      is_following: {
+        Args: { _follower_id: string; _following_id: string }
+        Returns: boolean
+      }
+      is_moderator: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      mark_messages_read: {
+        Args: { _conversation_id: string }
+        Returns: number
+      }
+      prune_project_views: {
+        Args: { _keep?: unknown }
+        Returns: number
+      }
+      record_project_view: {
+        Args: { _project_id: string; _session_id: string }
+        Returns: boolean
+      }
+      report_conversation: {
+        Args: { _conversation_id: string; _reason: string }
+        Returns: string
+      }
+      reorder_collection_items: {
+        Args: { _collection_id: string; _project_ids: string[] }
+        Returns: undefined
+      }
+      resolve_tool_name: {
+        Args: { _name: string }
+        Returns: string
+      }
+      resubmit_project: {
+        Args: { _note?: string; _project_id: string }
+        Returns: undefined
+      }
+      review_conversation_report: {
+        Args: { _note?: string; _report_id: string; _status: string }
+        Returns: undefined
+      }
+      review_project: {
+        Args: { _feedback?: string; _project_id: string; _status: string }
+        Returns: undefined
+      }
+      review_project_edit: {
+        Args: { _approve: boolean; _edit_id: string; _feedback?: string }
+        Returns: undefined
+      }
+      save_project_edit: {
+        Args: { _changes: Json; _project_id: string }
+        Returns: string
+      }
+      search_projects: {
+        Args: {
+          _following_only?: boolean
+          _from?: string
+          _has_screenshots?: boolean
+          _limit?: number
+          _offset?: number
+          _query: string
+          _to?: string
+          _tool_mode?: string
+          _tools?: string[]
+        }
+        Returns: {
+          allows_contact: boolean
+          created_at: string
+          creator_name: string
+          deeper_story: string
+          description: string
+          id: string
+          link: string
+          matched_tools: string[]
+          name: string
+          name_highlight: string
+          rank: number
+          reaction_counts: Json
+          screenshots: string[]
+          snippet: string
+          story: string
+          tools: string[]
+          user_id: string
+        }[]
+      }
+      set_conversation_muted: {
+        Args: { _conversation_id: string; _muted: boolean }
+        Returns: undefined
+      }
+      tool_key: {
+        Args: { _name: string }
+        Returns: string
+      }
+      tool_slug: {
+        Args: { _name: string }
+        Returns: string
+      }
+      touch_conversation: {
+        Args: { _conversation_id: string }
+        Returns: undefined
+      }
+      username_base: {
+        Args: { _value: string }
+        Returns: string
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "moderator"
+      tool_category: "llm" | "ide" | "no_code" | "image_model" | "other"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -426,6 +1338,9 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "moderator"],
+      tool_category: ["llm", "ide", "no_code", "image_model", "other"],
+    },
   },
 } as const
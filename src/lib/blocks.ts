@@ -0,0 +1,43 @@
+import { supabase } from "@/integrations/supabase/client"
+
+export interface BlockStatus {
+  // Either user has blocked the other, so neither can send messages
+  blocked: boolean
+  // The signed-in user is the one who blocked, so they can undo it
+  blockedByMe: boolean
+}
+
+export async function getBlockStatus(userId: string, otherUserId: string): Promise<BlockStatus> {
+  const [own, either] = await Promise.all([
+    supabase
+      .from("user_blocks")
+      .select("blocked_id")
+      .eq("blocker_id", userId)
+      .eq("blocked_id", otherUserId)
+      .maybeSingle(),
+    supabase.rpc("is_blocked_with", { _other_user_id: otherUserId }),
+  ])
+
+  if (own.error) throw own.error
+  if (either.error) throw either.error
+  return { blocked: !!either.data, blockedByMe: !!own.data }
+}
+
+export async function blockUser(userId: string, otherUserId: string) {
+  const { error } = await supabase
+    .from("user_blocks")
+    .insert({ blocker_id: userId, blocked_id: otherUserId })
+
+  // Already blocked
+  if (error && error.code !== "23505") throw error
+}
+
+export async function unblockUser(userId: string, otherUserId: string) {
+  const { error } = await supabase
+    .from("user_blocks")
+    .delete()
+    .eq("blocker_id", userId)
+    .eq("blocked_id", otherUserId)
+
+  if (error) throw error
+}
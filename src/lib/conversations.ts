@@ -0,0 +1,314 @@
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+import type { Database } from "@/integrations/supabase/types"
+
+export type Conversation = Database["public"]["Tables"]["conversations"]["Row"]
+export type Message = Database["public"]["Tables"]["messages"]["Row"]
+
+// The conversation between two users about a project, if one has been started
+export async function findConversation(projectId: string, userId: string, otherUserId: string) {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select("*")
+    .eq("project_id", projectId)
+    .or(`and(creator_id.eq.${userId},sender_id.eq.${otherUserId}),and(creator_id.eq.${otherUserId},sender_id.eq.${userId})`)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Conversations are created on the server, which guarantees one per pair of users per project
+export async function getOrCreateConversation(projectId: string, otherUserId: string) {
+  const { data, error } = await supabase.rpc("get_or_create_conversation", {
+    _project_id: projectId,
+    _other_user_id: otherUserId,
+  })
+
+  if (error) throw error
+  return data
+}
+
+// A file stored in the private attachments bucket under <conversation_id>/
+export type MessageAttachment = {
+  path: string
+  name: string
+  type: string
+  size: number
+}
+
+export const MAX_ATTACHMENTS = 5
+
+const ATTACHMENTS_BUCKET = "message-attachments"
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+export function messageAttachments(message: Pick<Message, "attachments">) {
+  return Array.isArray(message.attachments) ? (message.attachments as MessageAttachment[]) : []
+}
+
+export async function uploadAttachment(conversationId: string, file: File): Promise<MessageAttachment> {
+  // Storage keys only allow a limited character set; the original name is kept alongside
+  const safeName = file.name.replace(/[^\w.-]+/g, "_")
+  const path = `${conversationId}/${crypto.randomUUID()}-${safeName}`
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false })
+
+  if (error) throw error
+  return { path, name: file.name, type: file.type, size: file.size }
+}
+
+// Uploads from a message that was never sent
+export async function removeAttachments(attachments: MessageAttachment[]) {
+  if (attachments.length === 0) return
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove(attachments.map(attachment => attachment.path))
+
+  if (error) throw error
+}
+
+// Signed URLs are reused until shortly before they expire
+const signedUrls = new Map<string, { url: string; expiresAt: number }>()
+
+export async function getAttachmentUrls(paths: string[]) {
+  const now = Date.now()
+  const missing = paths.filter(path => (signedUrls.get(path)?.expiresAt ?? 0) <= now)
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrls(missing, SIGNED_URL_TTL_SECONDS)
+
+    if (error) throw error
+    const expiresAt = now + (SIGNED_URL_TTL_SECONDS - 60) * 1000
+    data.forEach(item => {
+      if (item.path && item.signedUrl) signedUrls.set(item.path, { url: item.signedUrl, expiresAt })
+    })
+  }
+
+  const urls: Record<string, string> = {}
+  paths.forEach(path => {
+    const signed = signedUrls.get(path)
+    if (signed) urls[path] = signed.url
+  })
+  return urls
+}
+
+// Keyset cursor: the oldest message already loaded
+export type MessageCursor = Pick<Message, "created_at" | "id">
+
+// Up to `limit` messages older than `before` (or the newest ones), oldest first
+export async function fetchMessages(conversationId: string, limit: number, before?: MessageCursor) {
+  let query = supabase
+    .from("messages")
+    .select("*")
+    .eq("conversation_id", conversationId)
+
+  if (before) {
+    query = query.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`)
+  }
+
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []).reverse()
+}
+
+// The id is chosen by the client, so retrying after a lost response can't save the message
+// twice: a duplicate key means an earlier attempt already went through.
+export async function insertMessage(
+  id: string,
+  conversationId: string,
+  senderId: string,
+  content: string,
+  attachments: MessageAttachment[] = []
+) {
+  const { data, error } = await supabase
+    .from("messages")
+    .insert({ id, conversation_id: conversationId, sender_id: senderId, content, attachments })
+    .select()
+    .single()
+
+  if (error?.code === "23505") {
+    const { data: existing, error: fetchError } = await supabase
+      .from("messages")
+      .select("*")
+      .eq("id", id)
+      .eq("sender_id", senderId)
+      .single()
+
+    if (fetchError) throw fetchError
+    return existing
+  }
+
+  if (error) throw error
+  return data
+}
+
+// Marks everything the other participant sent as read, stamping read_at on the server
+export async function markConversationRead(conversationId: string) {
+  const { error } = await supabase.rpc("mark_messages_read", { _conversation_id: conversationId })
+
+  if (error) throw error
+  // Lets the navbar refresh its unread badge
+  window.dispatchEvent(new CustomEvent("message-read"))
+}
+
+// Stores when the signed-in user last had the conversation open
+export async function touchConversation(conversationId: string) {
+  const { error } = await supabase.rpc("touch_conversation", { _conversation_id: conversationId })
+
+  if (error) throw error
+}
+
+export function isMutedBy(conversation: Conversation, userId: string) {
+  return conversation.creator_id === userId ? conversation.creator_muted : conversation.sender_muted
+}
+
+// Muting only affects the signed-in user's side of the conversation
+export async function setConversationMuted(conversationId: string, muted: boolean) {
+  const { error } = await supabase.rpc("set_conversation_muted", {
+    _conversation_id: conversationId,
+    _muted: muted,
+  })
+
+  if (error) throw error
+  // Muted conversations don't count towards the navbar's unread badge
+  window.dispatchEvent(new CustomEvent("conversation-muted"))
+}
+
+// Files a moderation report; the server attaches the latest messages as an excerpt
+export async function reportConversation(conversationId: string, reason: string) {
+  const { data, error } = await supabase.rpc("report_conversation", {
+    _conversation_id: conversationId,
+    _reason: reason,
+  })
+
+  if (error) throw error
+  return data
+}
+
+export interface ConversationListener {
+  onMessage: (message: Message) => void
+  // Called while realtime is unavailable, so the listener can reload instead
+  onResync: () => void
+  onTyping: (userId: string) => void
+  // Everyone with the conversation open right now
+  onPresence: (onlineUserIds: string[]) => void
+}
+
+interface ConversationChannel {
+  channel: RealtimeChannel
+  listeners: Set<ConversationListener>
+  connected: boolean
+  pollTimer: ReturnType<typeof setInterval> | null
+  pollDelay: ReturnType<typeof setTimeout>
+}
+
+// Give realtime a moment to connect before falling back to polling
+const POLL_START_DELAY_MS = 5000
+const POLL_INTERVAL_MS = 3000
+
+// One realtime channel per conversation, shared by every component showing it. Besides
+// message changes it carries presence and typing broadcasts, keyed by user id. The channel
+// is private, so only the two participants can join it.
+const conversationChannels = new Map<string, ConversationChannel>()
+
+export function subscribeToConversation(conversationId: string, userId: string, listener: ConversationListener) {
+  let entry = conversationChannels.get(conversationId)
+
+  if (!entry) {
+    const listeners = new Set<ConversationListener>()
+    const handleRow = (row: Message) => listeners.forEach(l => l.onMessage(row))
+
+    const channel = supabase.channel(`conversation-${conversationId}`, {
+      config: { private: true, presence: { key: userId } },
+    })
+
+    channel
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        payload => handleRow(payload.new as Message)
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        payload => handleRow(payload.new as Message)
+      )
+      .on("broadcast", { event: "typing" }, ({ payload }) => {
+        const typingUserId = payload?.user_id
+        if (typeof typingUserId !== "string" || typingUserId === userId) return
+        listeners.forEach(l => l.onTyping(typingUserId))
+      })
+      .on("presence", { event: "sync" }, () => {
+        const onlineUserIds = Object.keys(channel.presenceState())
+        listeners.forEach(l => l.onPresence(onlineUserIds))
+      })
+      .subscribe(status => {
+        const current = conversationChannels.get(conversationId)
+        if (!current) return
+        if (status === "SUBSCRIBED") {
+          current.connected = true
+          channel.track({ online_at: new Date().toISOString() })
+        }
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") current.connected = false
+      })
+
+    const created: ConversationChannel = {
+      channel,
+      listeners,
+      connected: false,
+      pollTimer: null,
+      pollDelay: setTimeout(() => {
+        created.pollTimer = setInterval(() => {
+          if (!created.connected) listeners.forEach(l => l.onResync())
+        }, POLL_INTERVAL_MS)
+      }, POLL_START_DELAY_MS),
+    }
+
+    conversationChannels.set(conversationId, created)
+    entry = created
+  }
+
+  entry.listeners.add(listener)
+  listener.onPresence(Object.keys(entry.channel.presenceState()))
+
+  return () => {
+    const current = conversationChannels.get(conversationId)
+    if (!current) return
+
+    current.listeners.delete(listener)
+    if (current.listeners.size > 0) return
+
+    clearTimeout(current.pollDelay)
+    if (current.pollTimer) clearInterval(current.pollTimer)
+    supabase.removeChannel(current.channel)
+    conversationChannels.delete(conversationId)
+  }
+}
+
+// Tells the other participant the user is typing; they don't receive their own broadcasts
+export function sendTyping(conversationId: string, userId: string) {
+  conversationChannels.get(conversationId)?.channel.send({
+    type: "broadcast",
+    event: "typing",
+    payload: { user_id: userId },
+  })
+}
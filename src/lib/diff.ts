@@ -0,0 +1,104 @@
+export type DiffPart = {
+  type: "same" | "added" | "removed"
+  value: string
+}
+
+export type SetDiff<T> = {
+  added: T[]
+  removed: T[]
+  kept: T[]
+}
+
+// Splits text into words and the whitespace between them so the diff can be rendered back verbatim
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? []
+}
+
+// Above this many table cells the changed middle is shown as one removal and one addition
+const MAX_LCS_CELLS = 1_000_000
+
+/**
+ * Word-level diff of two strings using a longest-common-subsequence table.
+ * Adjacent parts of the same type are merged.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const beforeTokens = tokenize(before)
+  const afterTokens = tokenize(after)
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart["type"], value: string) => {
+    if (!value) return
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.value += value
+    } else {
+      parts.push({ type, value })
+    }
+  }
+
+  // Edits are usually local, so strip the shared prefix and suffix before building the table
+  let start = 0
+  while (start < beforeTokens.length && start < afterTokens.length && beforeTokens[start] === afterTokens[start]) {
+    start++
+  }
+  let endBefore = beforeTokens.length
+  let endAfter = afterTokens.length
+  while (endBefore > start && endAfter > start && beforeTokens[endBefore - 1] === afterTokens[endAfter - 1]) {
+    endBefore--
+    endAfter--
+  }
+
+  const a = beforeTokens.slice(start, endBefore)
+  const b = afterTokens.slice(start, endAfter)
+  const suffix = beforeTokens.slice(endBefore).join("")
+
+  push("same", beforeTokens.slice(0, start).join(""))
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    push("removed", a.join(""))
+    push("added", b.join(""))
+    push("same", suffix)
+    return parts
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i])
+      i++
+    } else {
+      push("added", b[j])
+      j++
+    }
+  }
+  while (i < a.length) push("removed", a[i++])
+  while (j < b.length) push("added", b[j++])
+
+  push("same", suffix)
+  return parts
+}
+
+// Order-insensitive diff for lists such as tools and screenshot URLs
+export function diffSets<T>(before: T[], after: T[]): SetDiff<T> {
+  const beforeSet = new Set(before)
+  const afterSet = new Set(after)
+
+  return {
+    added: after.filter(item => !beforeSet.has(item)),
+    removed: before.filter(item => !afterSet.has(item)),
+    kept: after.filter(item => beforeSet.has(item)),
+  }
+}
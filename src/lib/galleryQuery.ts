@@ -0,0 +1,71 @@
+export type ToolMode = "any" | "all"
+
+export type GallerySort = "newest" | "trending" | "loved" | "reactions" | "views"
+
+export type GalleryFeed = "all" | "following"
+
+// Everything that decides which projects the gallery shows, mirrored in the /gallery query string
+export interface GalleryQuery {
+  search: string
+  tools: string[]
+  toolMode: ToolMode
+  from: string | null
+  to: string | null
+  hasScreenshots: boolean
+  sort: GallerySort
+  feed: GalleryFeed
+}
+
+export const defaultGalleryQuery: GalleryQuery = {
+  search: "",
+  tools: [],
+  toolMode: "any",
+  from: null,
+  to: null,
+  hasScreenshots: false,
+  sort: "newest",
+  feed: "all",
+}
+
+const sorts: GallerySort[] = ["newest", "trending", "loved", "reactions", "views"]
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function parseDate(value: string | null): string | null {
+  return value && DATE_PATTERN.test(value) ? value : null
+}
+
+/**
+ * Reads gallery state from the URL. Unknown or malformed values fall back to the defaults
+ * so a hand-edited link still opens the gallery.
+ */
+export function parseGalleryQuery(params: URLSearchParams): GalleryQuery {
+  const sort = params.get("sort") as GallerySort | null
+
+  return {
+    search: params.get("q") ?? "",
+    tools: Array.from(new Set(params.getAll("tool").filter(Boolean))),
+    toolMode: params.get("match") === "all" ? "all" : "any",
+    from: parseDate(params.get("from")),
+    to: parseDate(params.get("to")),
+    hasScreenshots: params.get("screenshots") === "1",
+    sort: sort && sorts.includes(sort) ? sort : "newest",
+    feed: params.get("feed") === "following" ? "following" : "all",
+  }
+}
+
+// Only non-default values are written so shared links stay short
+export function toGallerySearchParams(query: GalleryQuery): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (query.search) params.set("q", query.search)
+  query.tools.forEach(tool => params.append("tool", tool))
+  if (query.toolMode === "all") params.set("match", "all")
+  if (query.from) params.set("from", query.from)
+  if (query.to) params.set("to", query.to)
+  if (query.hasScreenshots) params.set("screenshots", "1")
+  if (query.sort !== "newest") params.set("sort", query.sort)
+  if (query.feed === "following") params.set("feed", "following")
+
+  return params
+}
@@ -0,0 +1,54 @@
+import type { Json } from "@/integrations/supabase/types"
+
+// Shape of the `changes` payload sent to save_project_edit (column names of projects)
+export interface ProjectChanges {
+  name: string
+  link: string
+  description: string
+  story: string
+  deeper_story: string | null
+  tools: string[]
+  screenshots: string[]
+  allows_contact: boolean
+  allows_comments: boolean
+  email: string
+  creator_name: string
+}
+
+export interface ProjectEdit {
+  id: string
+  project_id: string
+  user_id: string
+  changes: Partial<ProjectChanges>
+  flagged_fields: string[]
+  status: 'pending' | 'approved' | 'rejected'
+  feedback: string | null
+  created_at: string
+}
+
+export const editFieldLabels: Record<string, string> = {
+  name: "Project name",
+  link: "Project URL",
+  description: "Description",
+  story: "Story",
+  deeper_story: "Deeper story",
+  tools: "AI tools",
+  screenshots: "Screenshots",
+}
+
+export function toProjectEdit(row: {
+  id: string
+  project_id: string
+  user_id: string
+  changes: Json
+  flagged_fields: string[]
+  status: string
+  feedback: string | null
+  created_at: string
+}): ProjectEdit {
+  return {
+    ...row,
+    changes: (row.changes ?? {}) as Partial<ProjectChanges>,
+    status: row.status as ProjectEdit["status"],
+  }
+}
@@ -0,0 +1,45 @@
+import type { Database, Json } from "@/integrations/supabase/types"
+
+export type ReactionType = Database["public"]["Tables"]["reaction_types"]["Row"]
+
+// Reaction key -> number of reactions, for whatever keys reaction_types defines
+export type ReactionCounts = Record<string, number>
+
+// Reads the reaction_counts object that project_stats keeps per project
+export function toReactionCounts(value: Json | null | undefined): ReactionCounts {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {}
+
+  const counts: ReactionCounts = {}
+  Object.entries(value).forEach(([key, count]) => {
+    if (typeof count === "number") counts[key] = count
+  })
+  return counts
+}
+
+// The reaction keys the signed-in user has given, per project id
+export type UserReactions = Record<string, Set<string>>
+
+export function withUserReaction(
+  reactions: UserReactions,
+  projectId: string,
+  key: string,
+  active: boolean
+): UserReactions {
+  const keys = new Set(reactions[projectId])
+  if (active) {
+    keys.add(key)
+  } else {
+    keys.delete(key)
+  }
+  return { ...reactions, [projectId]: keys }
+}
+
+export function adjustReactionCount(counts: ReactionCounts, key: string, delta: number): ReactionCounts {
+  return { ...counts, [key]: Math.max((counts[key] || 0) + delta, 0) }
+}
+
+// Zero counts are treated like missing keys
+export function sameReactionCounts(a: ReactionCounts, b: ReactionCounts) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  return Array.from(keys).every(key => (a[key] || 0) === (b[key] || 0))
+}
@@ -0,0 +1,37 @@
+import type { Database } from "@/integrations/supabase/types"
+
+export type ToolCategory = Database["public"]["Enums"]["tool_category"]
+
+export type ToolRecord = Database["public"]["Tables"]["tools"]["Row"]
+
+export const toolCategoryLabels: Record<ToolCategory, string> = {
+  llm: "LLMs",
+  ide: "IDEs & coding agents",
+  no_code: "No-code builders",
+  image_model: "Image models",
+  other: "Other",
+}
+
+// Same comparison as the tool_key() database function: lowercase letters and digits only
+export function toolKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "")
+}
+
+/**
+ * Finds the registered tool a name or alias refers to. Mirrors resolve_tool_name(), which
+ * the database applies to every saved project anyway.
+ */
+export function findTool(name: string, tools: ToolRecord[]): ToolRecord | undefined {
+  const key = toolKey(name)
+  if (!key) return undefined
+
+  return (
+    tools.find(tool => toolKey(tool.name) === key) ??
+    tools.find(tool => tool.aliases.some(alias => toolKey(alias) === key))
+  )
+}
+
+// Same as the tool_slug() database function, which registered tool slugs must match
+export function toolSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")
+}
@@ -0,0 +1,51 @@
+// Upload rules shared by project screenshots and message attachments
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024
+
+// SVG is left out: it can carry scripts that run when the file is opened directly
+export const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"]
+
+// Non-image files that can be attached to messages
+export const ATTACHMENT_FILE_TYPES = [
+  "application/pdf",
+  "application/zip",
+  "application/json",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+]
+
+export const ATTACHMENT_ACCEPT = [...IMAGE_TYPES, ...ATTACHMENT_FILE_TYPES].join(",")
+
+export interface UploadProblem {
+  title: string
+  description: string
+}
+
+export const isImageType = (type: string) => IMAGE_TYPES.includes(type)
+
+export function imageUploadProblem(file: File): UploadProblem | null {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { title: "File too large", description: "Please select images smaller than 5MB" }
+  }
+  if (!isImageType(file.type)) {
+    return { title: "Invalid file type", description: "Please select a PNG, JPEG, GIF or WebP image" }
+  }
+  return null
+}
+
+export function attachmentUploadProblem(file: File): UploadProblem | null {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { title: "File too large", description: `${file.name} is larger than 5MB` }
+  }
+  if (!isImageType(file.type) && !ATTACHMENT_FILE_TYPES.includes(file.type)) {
+    return { title: "Invalid file type", description: "Attach images, PDFs, text files or zip archives" }
+  }
+  return null
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
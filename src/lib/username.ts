@@ -0,0 +1,11 @@
+// Matches the profiles_username_format constraint
+export const USERNAME_PATTERN = /^[a-z0-9][a-z0-9_-]{1,28}[a-z0-9]$/
+
+export function usernameError(username: string): string | null {
+  if (username.length < 3) return "Usernames need at least 3 characters"
+  if (username.length > 30) return "Usernames can be at most 30 characters"
+  if (!USERNAME_PATTERN.test(username)) {
+    return "Use lowercase letters, numbers, \"-\" or \"_\", starting and ending with a letter or number"
+  }
+  return null
+}
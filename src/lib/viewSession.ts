@@ -0,0 +1,17 @@
+const VIEW_SESSION_KEY = "project-view-session"
+
+// Identifies an anonymous browser to record_project_view so refreshes aren't counted
+// as new views. Signed-in viewers are identified by their account instead.
+export function getViewSessionId(): string {
+  try {
+    const existing = localStorage.getItem(VIEW_SESSION_KEY)
+    if (existing) return existing
+
+    const id = crypto.randomUUID()
+    localStorage.setItem(VIEW_SESSION_KEY, id)
+    return id
+  } catch {
+    // Storage can be unavailable, e.g. in some private windows; such views are counted per page load
+    return crypto.randomUUID()
+  }
+}
@@ -0,0 +1,371 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, XCircle, Clock, ShieldCheck, Mail, Inbox, History } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { ProjectShowcase } from '@/components/ProjectShowcase';
+import { ReviewHistory } from '@/components/ReviewHistory';
+import { PendingEditsQueue } from '@/components/PendingEditsQueue';
+import { ConversationReportsQueue } from '@/components/ConversationReportsQueue';
+
+type ProjectStatus = 'pending' | 'approved' | 'rejected';
+type ModerationTab = ProjectStatus | 'edits' | 'reports';
+
+interface ModerationProject {
+  id: string;
+  name: string;
+  description: string;
+  story: string;
+  deeper_story?: string | null;
+  link: string;
+  tools: string[];
+  screenshots: string[] | null;
+  creator_name: string;
+  email: string;
+  status: ProjectStatus;
+  created_at: string;
+  user_id: string;
+  reviewed_at: string | null;
+  review_feedback: string | null;
+}
+
+export default function AdminModeration() {
+  const navigate = useNavigate();
+  const { user, isModerator, roleLoading, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const [statusFilter, setStatusFilter] = useState<ModerationTab>('pending');
+  const [projects, setProjects] = useState<ModerationProject[]>([]);
+  const [selectedProject, setSelectedProject] = useState<ModerationProject | null>(null);
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [feedback, setFeedback] = useState("");
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    if (user && isModerator && statusFilter !== 'edits' && statusFilter !== 'reports') {
+      fetchProjects();
+    }
+  }, [user, isModerator, statusFilter]);
+
+  useEffect(() => {
+    setFeedback("");
+    if (selectedProject) {
+      fetchCreatorAvatar(selectedProject.user_id);
+    } else {
+      setAvatarUrl(null);
+    }
+  }, [selectedProject?.id]);
+
+  const fetchProjects = async () => {
+    setLoading(true);
+    try {
+      // Oldest first for the queue so nothing waits indefinitely
+      const { data, error } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('status', statusFilter)
+        .order('created_at', { ascending: statusFilter === 'pending' });
+
+      if (error) {
+        console.error('Error fetching moderation queue:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load projects for review.",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const queue = (data || []).map(project => ({
+        ...project,
+        status: project.status as ProjectStatus
+      }));
+
+      setProjects(queue);
+      setSelectedProject(current => queue.find(p => p.id === current?.id) || queue[0] || null);
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCreatorAvatar = async (creatorId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('avatar_url')
+        .eq('user_id', creatorId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching creator avatar:', error);
+        return;
+      }
+
+      setAvatarUrl(data?.avatar_url || null);
+    } catch (error) {
+      console.error('Error fetching creator avatar:', error);
+    }
+  };
+
+  const updateStatus = async (project: ModerationProject, status: ProjectStatus) => {
+    if (!user) return;
+
+    if (status === 'rejected' && !feedback.trim()) {
+      toast({
+        title: "Feedback required",
+        description: "Let the creator know what needs to change before rejecting.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      const { error } = await supabase.rpc('review_project', {
+        _project_id: project.id,
+        _status: status,
+        _feedback: feedback.trim() || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: status === 'approved' ? "Project approved" : status === 'rejected' ? "Project rejected" : "Moved back to pending",
+        description: status === 'approved'
+          ? `${project.name} is now visible in the gallery.`
+          : `${project.name} has been updated.`,
+      });
+
+      // The project no longer belongs to the current tab
+      const remaining = projects.filter(p => p.id !== project.id);
+      setProjects(remaining);
+      setSelectedProject(remaining[0] || null);
+    } catch (error) {
+      console.error('Error updating project status:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update project status.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const getStatusIcon = (status: ProjectStatus) => {
+    switch (status) {
+      case 'approved':
+        return <CheckCircle className="h-3 w-3 text-green-500" />;
+      case 'rejected':
+        return <XCircle className="h-3 w-3 text-red-500" />;
+      default:
+        return <Clock className="h-3 w-3 text-yellow-500" />;
+    }
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  if (roleLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isModerator) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <ShieldCheck className="h-10 w-10 text-muted-foreground/70 mx-auto mb-4" />
+          <h2 className="text-2xl font-semibold text-foreground mb-2">Moderators only</h2>
+          <p className="text-foreground/70 mb-6">You don't have access to the moderation console.</p>
+          <Button onClick={() => navigate('/gallery')} variant="outline" className="bg-gradient-to-r from-[#f6d365]/20 to-[#fda085]/20 hover:from-[#f6d365]/30 hover:to-[#fda085]/30 border-[#f6d365]/30 hover:border-[#f6d365]/50">
+            Back to Gallery
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 overflow-x-hidden">
+      <div className="relative w-full max-w-[1920px] mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-8 lg:py-10">
+        {/* Header Section */}
+        <div className="mb-6 lg:mb-8 text-center">
+          <div className="flex flex-col items-center space-y-4 lg:space-y-6">
+            <h1 className="font-['Playfair_Display'] text-2xl md:text-[2.5rem] xl:text-[3rem] font-normal leading-[1.2] bg-gradient-to-br from-white via-[#f6d365] to-[#fda085] bg-clip-text text-transparent tracking-[0.01em]">
+              Moderation
+            </h1>
+            {/* Divider */}
+            <div className="w-8 lg:w-10 h-px bg-gradient-to-r from-[#f6d365] via-[#fda085] to-[#f6d365]"></div>
+            <p className="hidden md:block text-sm lg:text-base text-foreground/70 max-w-[700px] font-extralight leading-[1.8] tracking-[0.3px]">
+              Review submissions before they appear in the gallery.
+            </p>
+          </div>
+        </div>
+
+        <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as ModerationTab)} className="mb-6">
+          <TabsList>
+            <TabsTrigger value="pending">Pending</TabsTrigger>
+            <TabsTrigger value="approved">Approved</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+            <TabsTrigger value="edits">Updates</TabsTrigger>
+            <TabsTrigger value="reports">Reports</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {statusFilter === 'edits' ? (
+          <PendingEditsQueue />
+        ) : statusFilter === 'reports' ? (
+          <ConversationReportsQueue />
+        ) : loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+          </div>
+        ) : projects.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-gradient-to-br from-[#f6d365]/20 to-[#fda085]/20 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Inbox className="h-8 w-8 text-muted-foreground/70" />
+            </div>
+            <h3 className="text-lg font-medium text-foreground mb-2">Nothing here</h3>
+            <p className="text-sm text-muted-foreground">
+              {statusFilter === 'pending' ? 'The review queue is empty.' : `No ${statusFilter} projects.`}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+            {/* Queue */}
+            <div className="space-y-3">
+              {projects.map((project) => (
+                <Card
+                  key={project.id}
+                  onClick={() => setSelectedProject(project)}
+                  className={`cursor-pointer border-border/30 bg-card/80 backdrop-blur-sm transition-all duration-300 ${
+                    selectedProject?.id === project.id
+                      ? 'border-[#fda085]/60 shadow-lg shadow-[#fda085]/10'
+                      : 'hover:bg-card/90 hover:border-[#f6d365]/40'
+                  }`}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-2 mb-1">
+                      <h3 className="font-medium text-foreground line-clamp-1">{project.name}</h3>
+                      <Badge variant="secondary" className="font-light text-xs flex-shrink-0">
+                        <span className="flex items-center gap-1">
+                          {getStatusIcon(project.status)}
+                          {project.status}
+                        </span>
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {project.creator_name} · {new Date(project.created_at).toLocaleDateString()}
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {/* Preview */}
+            {selectedProject && (
+              <div className="lg:col-span-2 space-y-6">
+                <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
+                  <CardContent className="p-4 sm:p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                    <div className="text-sm text-foreground/70 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Mail className="h-4 w-4" />
+                        <span>{selectedProject.email}</span>
+                      </div>
+                      {selectedProject.reviewed_at && (
+                        <p className="text-xs text-muted-foreground">
+                          Last reviewed {new Date(selectedProject.reviewed_at).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      {selectedProject.status !== 'approved' && (
+                        <Button
+                          onClick={() => updateStatus(selectedProject, 'approved')}
+                          disabled={updating}
+                          className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-white font-semibold"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-2" />
+                          Approve
+                        </Button>
+                      )}
+                      {selectedProject.status !== 'rejected' && (
+                        <Button
+                          variant="outline"
+                          onClick={() => updateStatus(selectedProject, 'rejected')}
+                          disabled={updating}
+                          className="border-destructive/40 text-destructive hover:bg-destructive/10"
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Reject
+                        </Button>
+                      )}
+                      {selectedProject.status !== 'pending' && (
+                        <Button
+                          variant="ghost"
+                          onClick={() => updateStatus(selectedProject, 'pending')}
+                          disabled={updating}
+                        >
+                          <Clock className="h-4 w-4 mr-2" />
+                          Back to queue
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
+                  <CardContent className="p-4 sm:p-6 space-y-2">
+                    <Label htmlFor="review-feedback" className="text-sm font-medium text-foreground">
+                      Feedback for the creator
+                    </Label>
+                    <Textarea
+                      id="review-feedback"
+                      placeholder="Required when rejecting. Explain what needs to change..."
+                      value={feedback}
+                      onChange={(e) => setFeedback(e.target.value)}
+                      className="border-border/30 focus:border-[#fda085]/50 focus:ring-[#fda085]/20 min-h-[80px] font-light"
+                    />
+                  </CardContent>
+                </Card>
+
+                <ProjectShowcase key={selectedProject.id} project={selectedProject} avatarUrl={avatarUrl} />
+
+                <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
+                  <CardContent className="p-4 sm:p-6">
+                    <div className="flex items-center gap-2 mb-4">
+                      <History className="h-4 w-4 text-[#fda085]" />
+                      <h3 className="text-sm font-medium text-foreground">Review History</h3>
+                    </div>
+                    <ReviewHistory projectId={selectedProject.id} ownerId={selectedProject.user_id} />
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
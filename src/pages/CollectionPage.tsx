@@ -0,0 +1,486 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { ArrowDown, ArrowLeft, ArrowUp, Globe, Link2, Lock, Pencil, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { ProjectTile, type TileProject } from "@/components/ProjectTile";
+
+interface Collection {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  updated_at: string;
+}
+
+interface Curator {
+  username: string;
+  avatar_url: string | null;
+}
+
+interface CollectionItem {
+  project_id: string;
+  note: string | null;
+  project: TileProject;
+}
+
+export default function CollectionPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [collection, setCollection] = useState<Collection | null>(null);
+  const [curator, setCurator] = useState<Curator | null>(null);
+  const [items, setItems] = useState<CollectionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingDetails, setEditingDetails] = useState(false);
+  const [details, setDetails] = useState({ name: '', description: '', is_public: false });
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+
+  useEffect(() => {
+    if (id) {
+      loadCollection(id);
+    }
+  }, [id, user]);
+
+  const loadCollection = async (collectionId: string) => {
+    setLoading(true);
+
+    try {
+      const { data: collectionData, error: collectionError } = await supabase
+        .from('collections')
+        .select('id, user_id, name, description, is_public, updated_at')
+        .eq('id', collectionId)
+        .maybeSingle();
+
+      if (collectionError) {
+        console.error('Error fetching collection:', collectionError);
+      }
+
+      setCollection(collectionData);
+      if (!collectionData) return;
+
+      const [{ data: curatorData, error: curatorError }, { data: itemsData, error: itemsError }] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('username, avatar_url')
+          .eq('user_id', collectionData.user_id)
+          .maybeSingle(),
+        supabase
+          .from('collection_items')
+          .select('project_id, note')
+          .eq('collection_id', collectionId)
+          .order('position', { ascending: true })
+      ]);
+
+      if (curatorError) console.error('Error fetching curator:', curatorError);
+      if (itemsError) console.error('Error fetching collection items:', itemsError);
+
+      setCurator(curatorData);
+
+      const projectIds = (itemsData || []).map(item => item.project_id);
+      const { data: projectsData, error: projectsError } = projectIds.length > 0
+        ? await supabase
+            .from('projects_public')
+            .select('id, name, description, screenshots, creator_name')
+            .in('id', projectIds)
+        : { data: [], error: null };
+
+      if (projectsError) console.error('Error fetching collection projects:', projectsError);
+
+      // Projects that are no longer public drop out of the list
+      const projectMap = new Map((projectsData || []).map(project => [project.id, project]));
+      setItems((itemsData || []).flatMap(item => {
+        const project = projectMap.get(item.project_id);
+        return project ? [{
+          project_id: item.project_id,
+          note: item.note,
+          project: {
+            id: project.id!,
+            name: project.name || '',
+            description: project.description || '',
+            screenshots: project.screenshots || [],
+            creator_name: project.creator_name || ''
+          }
+        }] : [];
+      }));
+    } catch (error) {
+      console.error('Unexpected error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isOwner = !!collection && user?.id === collection.user_id;
+
+  const startEditingDetails = () => {
+    if (!collection) return;
+    setDetails({
+      name: collection.name,
+      description: collection.description || '',
+      is_public: collection.is_public
+    });
+    setEditingDetails(true);
+  };
+
+  const saveDetails = async () => {
+    if (!collection || !details.name.trim()) return;
+
+    const { data, error } = await supabase
+      .from('collections')
+      .update({
+        name: details.name.trim(),
+        description: details.description.trim() || null,
+        is_public: details.is_public
+      })
+      .eq('id', collection.id)
+      .select('id, user_id, name, description, is_public, updated_at')
+      .single();
+
+    if (error) {
+      console.error('Error updating collection:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the collection. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCollection(data);
+    setEditingDetails(false);
+  };
+
+  const deleteCollection = async () => {
+    if (!collection) return;
+    if (!confirm('Are you sure you want to delete this collection? This action cannot be undone.')) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('collections')
+      .delete()
+      .eq('id', collection.id);
+
+    if (error) {
+      console.error('Error deleting collection:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the collection",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Collection deleted",
+      description: `"${collection.name}" has been deleted`
+    });
+    navigate(curator ? `/u/${curator.username}` : '/gallery');
+  };
+
+  const moveItem = async (index: number, offset: number) => {
+    if (!collection) return;
+
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+
+    const previous = items;
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setItems(reordered);
+
+    const { error } = await supabase.rpc('reorder_collection_items', {
+      _collection_id: collection.id,
+      _project_ids: reordered.map(item => item.project_id)
+    });
+
+    if (error) {
+      console.error('Error reordering collection:', error);
+      setItems(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save the new order. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const saveNote = async (projectId: string) => {
+    if (!collection) return;
+
+    const note = noteDraft.trim() || null;
+    const { error } = await supabase
+      .from('collection_items')
+      .update({ note })
+      .eq('collection_id', collection.id)
+      .eq('project_id', projectId);
+
+    if (error) {
+      console.error('Error saving note:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the note. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setItems(prev => prev.map(item => item.project_id === projectId ? { ...item, note } : item));
+    setEditingNoteId(null);
+  };
+
+  const removeItem = async (projectId: string) => {
+    if (!collection) return;
+
+    const { error } = await supabase
+      .from('collection_items')
+      .delete()
+      .eq('collection_id', collection.id)
+      .eq('project_id', projectId);
+
+    if (error) {
+      console.error('Error removing project from collection:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the project. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setItems(prev => prev.filter(item => item.project_id !== projectId));
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link copied",
+        description: "Share it with anyone you like."
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-foreground/70">Loading collection...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Private collections look the same as missing ones to everyone but the owner
+  if (!collection) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-foreground mb-4">Collection not found</h2>
+          <Button onClick={() => navigate('/gallery')} variant="outline" className="bg-gradient-to-r from-[#f6d365]/20 to-[#fda085]/20 hover:from-[#f6d365]/30 hover:to-[#fda085]/30 border-[#f6d365]/30 hover:border-[#f6d365]/50">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Gallery
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 overflow-x-hidden">
+      <div className="absolute inset-0 bg-subtle-grid bg-grid opacity-30 pointer-events-none"></div>
+
+      <div className="relative container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 max-w-5xl">
+        {/* Header */}
+        <div className="flex flex-col items-center text-center space-y-4 mb-8 sm:mb-12">
+          {editingDetails ? (
+            <Card className="w-full max-w-xl bg-card/60 backdrop-blur-sm border-white/10 text-left">
+              <CardContent className="p-6 space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="collection-name">Name</Label>
+                  <Input
+                    id="collection-name"
+                    value={details.name}
+                    maxLength={80}
+                    onChange={(e) => setDetails(prev => ({ ...prev, name: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="collection-description">Description</Label>
+                  <Textarea
+                    id="collection-description"
+                    value={details.description}
+                    maxLength={500}
+                    onChange={(e) => setDetails(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="What ties these projects together?"
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="collection-public">Public</Label>
+                    <p className="text-xs text-muted-foreground">Anyone with the link can see public collections, and they appear on your profile.</p>
+                  </div>
+                  <Switch
+                    id="collection-public"
+                    checked={details.is_public}
+                    onCheckedChange={(checked) => setDetails(prev => ({ ...prev, is_public: checked }))}
+                  />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" onClick={() => setEditingDetails(false)}>Cancel</Button>
+                  <Button
+                    onClick={saveDetails}
+                    disabled={!details.name.trim()}
+                    className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-gray-900 font-medium"
+                  >
+                    Save
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <span className="flex items-center gap-1.5 text-xs uppercase tracking-wide text-muted-foreground">
+                {collection.is_public ? <Globe className="h-3.5 w-3.5" /> : <Lock className="h-3.5 w-3.5" />}
+                {collection.is_public ? 'Public collection' : 'Private collection'}
+              </span>
+              <h1 className="font-['Playfair_Display'] text-3xl sm:text-[2.5rem] font-normal leading-[1.2] bg-gradient-to-br from-white via-[#f6d365] to-[#fda085] bg-clip-text text-transparent tracking-[0.01em]">
+                {collection.name}
+              </h1>
+              <div className="w-8 lg:w-10 h-px bg-gradient-to-r from-[#f6d365] via-[#fda085] to-[#f6d365]"></div>
+              {collection.description && (
+                <p className="text-sm lg:text-base text-foreground/70 max-w-[650px] font-extralight leading-[1.8] tracking-[0.3px] whitespace-pre-line">
+                  {collection.description}
+                </p>
+              )}
+              {curator && (
+                <Link to={`/u/${curator.username}`} className="flex items-center gap-2 text-sm text-foreground/70 hover:text-[#fda085] transition-colors">
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage src={curator.avatar_url || undefined} alt={curator.username} />
+                    <AvatarFallback className="bg-gradient-to-br from-[#f6d365] to-[#fda085] text-gray-900 text-[10px] font-semibold">
+                      {curator.username.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  Curated by {curator.username}
+                </Link>
+              )}
+
+              <div className="flex flex-wrap justify-center gap-2">
+                {collection.is_public && (
+                  <Button variant="outline" size="sm" onClick={copyLink} className="border-white/20 hover:border-[#f6d365]/40 hover:text-[#fda085]">
+                    <Link2 className="h-4 w-4 mr-2" />
+                    Copy link
+                  </Button>
+                )}
+                {isOwner && (
+                  <>
+                    <Button variant="outline" size="sm" onClick={startEditingDetails} className="border-white/20 hover:border-[#f6d365]/40 hover:text-[#fda085]">
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={deleteCollection} className="border-white/20 hover:border-destructive/50 hover:text-destructive">
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Items */}
+        {items.length === 0 ? (
+          <p className="text-center text-foreground/60">
+            {isOwner ? 'Save projects from the gallery to start filling this collection.' : 'This collection is empty.'}
+          </p>
+        ) : (
+          <ol className="space-y-4">
+            {items.map((item, index) => (
+              <li key={item.project_id} className="grid grid-cols-1 sm:grid-cols-[16rem_1fr] gap-4 items-start">
+                <ProjectTile project={item.project} />
+
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-[#fda085]">#{index + 1}</span>
+                    {isOwner && (
+                      <div className="flex items-center gap-1 ml-auto">
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveItem(index, -1)} disabled={index === 0} aria-label="Move up">
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} aria-label="Move down">
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 w-7 p-0 hover:text-destructive" onClick={() => removeItem(item.project_id)} aria-label="Remove from collection">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {editingNoteId === item.project_id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={noteDraft}
+                        maxLength={280}
+                        onChange={(e) => setNoteDraft(e.target.value)}
+                        placeholder="Why is this project here?"
+                        className="min-h-[80px] text-sm bg-background/40 border-white/10"
+                      />
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-muted-foreground">{noteDraft.length}/280</span>
+                        <div className="flex gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setEditingNoteId(null)}>Cancel</Button>
+                          <Button
+                            size="sm"
+                            onClick={() => saveNote(item.project_id)}
+                            className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-gray-900 font-medium"
+                          >
+                            Save note
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ) : item.note ? (
+                    <p className="text-sm text-foreground/80 leading-relaxed whitespace-pre-line border-l-2 border-[#f6d365]/40 pl-3 italic">
+                      {item.note}
+                    </p>
+                  ) : null}
+
+                  {isOwner && editingNoteId !== item.project_id && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs text-muted-foreground hover:text-[#fda085]"
+                      onClick={() => {
+                        setEditingNoteId(item.project_id);
+                        setNoteDraft(item.note || '');
+                      }}
+                    >
+                      <Pencil className="h-3.5 w-3.5 mr-1" />
+                      {item.note ? 'Edit note' : 'Add a note'}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
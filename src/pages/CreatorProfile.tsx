@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { ArrowLeft, Bookmark, Eye, Github, Globe, Heart, Layers, Linkedin, Lock, MessageCircle, Twitter } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { MessageDialog } from "@/components/MessageDialog";
+import { ProjectTile } from "@/components/ProjectTile";
+import { FollowButton } from "@/components/FollowButton";
+
+interface PublicProfile {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  bio: string | null;
+  website: string | null;
+  github: string | null;
+  twitter: string | null;
+  linkedin: string | null;
+  allow_contact: boolean;
+  created_at: string;
+}
+
+interface CreatorProject {
+  id: string;
+  name: string;
+  description: string;
+  screenshots: string[];
+  creator_name: string;
+  allows_contact: boolean;
+}
+
+interface CreatorCollection {
+  id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  item_count: number;
+}
+
+interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+interface CreatorStats {
+  project_count: number;
+  reaction_count: number;
+  view_count: number;
+}
+
+export default function CreatorProfile() {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [projects, setProjects] = useState<CreatorProject[]>([]);
+  const [stats, setStats] = useState<CreatorStats | null>(null);
+  const [collections, setCollections] = useState<CreatorCollection[]>([]);
+  const [followCounts, setFollowCounts] = useState<FollowCounts>({ followers: 0, following: 0 });
+  const [loading, setLoading] = useState(true);
+  const [showMessageDialog, setShowMessageDialog] = useState(false);
+
+  useEffect(() => {
+    if (username) {
+      loadCreator(username.toLowerCase());
+    }
+  }, [username]);
+
+  const loadCreator = async (name: string) => {
+    setLoading(true);
+
+    try {
+      const { data: profileData, error: profileError } = await supabase
+        .from('profiles')
+        .select('user_id, username, avatar_url, bio, website, github, twitter, linkedin, allow_contact, created_at')
+        .eq('username', name)
+        .maybeSingle();
+
+      if (profileError) {
+        console.error('Error fetching creator profile:', profileError);
+      }
+
+      setProfile(profileData);
+      if (!profileData) return;
+
+      const [
+        { data: projectsData, error: projectsError },
+        { data: statsData, error: statsError },
+        { count: followerCount, error: followersError },
+        { count: followingCount, error: followingError },
+        { data: collectionsData, error: collectionsError }
+      ] = await Promise.all([
+        supabase
+          .from('projects_public')
+          .select('id, name, description, screenshots, creator_name, allows_contact')
+          .eq('user_id', profileData.user_id)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_creator_stats', { _user_id: profileData.user_id }),
+        supabase
+          .from('follows')
+          .select('follower_id', { count: 'exact', head: true })
+          .eq('following_id', profileData.user_id),
+        supabase
+          .from('follows')
+          .select('following_id', { count: 'exact', head: true })
+          .eq('follower_id', profileData.user_id),
+        // Others only get public collections back; the owner also sees their private ones
+        supabase
+          .from('collections')
+          .select('id, name, description, is_public, collection_items(count)')
+          .eq('user_id', profileData.user_id)
+          .order('updated_at', { ascending: false })
+      ]);
+
+      if (projectsError) console.error('Error fetching projects:', projectsError);
+      if (statsError) console.error('Error fetching creator stats:', statsError);
+      if (followersError) console.error('Error fetching followers:', followersError);
+      if (followingError) console.error('Error fetching following:', followingError);
+      if (collectionsError) console.error('Error fetching collections:', collectionsError);
+
+      setFollowCounts({ followers: followerCount ?? 0, following: followingCount ?? 0 });
+
+      setProjects((projectsData || []).map(project => ({
+        id: project.id!,
+        name: project.name || '',
+        description: project.description || '',
+        screenshots: project.screenshots || [],
+        creator_name: project.creator_name || profileData.username,
+        allows_contact: !!project.allows_contact
+      })));
+      setStats(statsData?.[0] ?? null);
+      setCollections((collectionsData || []).map(({ collection_items, ...collection }) => ({
+        ...collection,
+        item_count: collection_items[0]?.count ?? 0
+      })));
+    } catch (error) {
+      console.error('Unexpected error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-foreground/70">Loading creator...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-foreground mb-4">Creator not found</h2>
+          <Button onClick={() => navigate('/gallery')} variant="outline" className="bg-gradient-to-r from-[#f6d365]/20 to-[#fda085]/20 hover:from-[#f6d365]/30 hover:to-[#fda085]/30 border-[#f6d365]/30 hover:border-[#f6d365]/50">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Gallery
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Conversations belong to a project, so messages go through the newest project that accepts them
+  const contactProject = profile.allow_contact ? projects.find(p => p.allows_contact) : undefined;
+  const isOwnProfile = user?.id === profile.user_id;
+
+  const links = [
+    { url: profile.website, label: 'Website', icon: Globe },
+    { url: profile.github, label: 'GitHub', icon: Github },
+    { url: profile.twitter, label: 'Twitter', icon: Twitter },
+    { url: profile.linkedin, label: 'LinkedIn', icon: Linkedin }
+  ].filter(link => link.url);
+
+  const statItems = [
+    { label: 'Projects', value: stats?.project_count ?? projects.length, icon: Layers },
+    { label: 'Reactions', value: stats?.reaction_count ?? 0, icon: Heart },
+    { label: 'Views', value: stats?.view_count ?? 0, icon: Eye }
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 overflow-x-hidden">
+      <div className="absolute inset-0 bg-subtle-grid bg-grid opacity-30 pointer-events-none"></div>
+
+      <div className="relative container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 max-w-6xl">
+        {/* Header */}
+        <div className="flex flex-col items-center text-center space-y-4 mb-8 sm:mb-12">
+          <Avatar className="h-20 w-20 sm:h-24 sm:w-24 ring-2 ring-[#f6d365]/30">
+            <AvatarImage src={profile.avatar_url || undefined} alt={profile.username} />
+            <AvatarFallback className="bg-gradient-to-br from-[#f6d365] to-[#fda085] text-gray-900 text-2xl font-semibold">
+              {profile.username.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <h1 className="font-['Playfair_Display'] text-3xl sm:text-[2.5rem] font-normal leading-[1.2] bg-gradient-to-br from-white via-[#f6d365] to-[#fda085] bg-clip-text text-transparent tracking-[0.01em]">
+            {profile.username}
+          </h1>
+          <div className="flex items-center gap-4 text-sm text-foreground/70">
+            <span><span className="font-semibold text-foreground">{followCounts.followers}</span> {followCounts.followers === 1 ? 'follower' : 'followers'}</span>
+            <span><span className="font-semibold text-foreground">{followCounts.following}</span> following</span>
+          </div>
+          <div className="w-8 lg:w-10 h-px bg-gradient-to-r from-[#f6d365] via-[#fda085] to-[#f6d365]"></div>
+          {profile.bio && (
+            <p className="text-sm lg:text-base text-foreground/70 max-w-[650px] font-extralight leading-[1.8] tracking-[0.3px] whitespace-pre-line">
+              {profile.bio}
+            </p>
+          )}
+
+          {links.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-4">
+              {links.map(({ url, label, icon: Icon }) => (
+                <a key={label} href={url!} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-sm text-foreground/70 hover:text-[#fda085] transition-colors">
+                  <Icon className="h-4 w-4" />
+                  <span>{label}</span>
+                </a>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap justify-center gap-3">
+            <FollowButton
+              creatorId={profile.user_id}
+              creatorName={profile.username}
+              onFollowChange={(following) =>
+                setFollowCounts(prev => ({ ...prev, followers: prev.followers + (following ? 1 : -1) }))
+              }
+            />
+            {isOwnProfile ? (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate('/profile')}
+                className="border-white/20 hover:border-[#f6d365]/40 hover:text-[#fda085]"
+              >
+                Edit profile
+              </Button>
+            ) : contactProject && (
+              <Button
+                onClick={() => {
+                  if (!user) {
+                    toast({
+                      title: "Sign in required",
+                      description: "Please sign in to message the creator.",
+                      variant: "destructive"
+                    });
+                    return;
+                  }
+                  setShowMessageDialog(true);
+                }}
+                variant="outline"
+                className="border-border/50 hover:border-[#fda085]/50 text-foreground/80 hover:text-[#fda085] bg-transparent hover:bg-[#fda085]/5 font-medium rounded-lg transition-all duration-300"
+              >
+                <MessageCircle className="h-4 w-4 mr-2" />
+                {user ? `Message ${profile.username}` : 'Sign in to Message'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-3 gap-3 sm:gap-4 mb-8 max-w-2xl mx-auto">
+          {statItems.map(({ label, value, icon: Icon }) => (
+            <Card key={label} className="bg-card/60 backdrop-blur-sm border-white/10">
+              <CardContent className="p-4 flex flex-col sm:flex-row items-center gap-2 sm:gap-3 text-center sm:text-left">
+                <div className="p-2 rounded-lg bg-gradient-to-br from-[#f6d365]/20 to-[#fda085]/20">
+                  <Icon className="h-4 w-4 text-[#fda085]" />
+                </div>
+                <div>
+                  <p className="text-xl font-semibold text-foreground">{value}</p>
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Projects */}
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">Projects</h2>
+          {projects.length === 0 ? (
+            <p className="text-foreground/60">{profile.username} hasn't shared any projects yet.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {projects.map((project) => (
+                <ProjectTile key={project.id} project={project} showCreator={false} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Collections */}
+        {collections.length > 0 && (
+          <div className="space-y-4 mt-10">
+            <h2 className="text-lg font-semibold text-foreground">Collections</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {collections.map((collection) => (
+                <Link key={collection.id} to={`/collections/${collection.id}`}>
+                  <Card className="h-full bg-card/60 backdrop-blur-sm border-white/10 hover:border-[#f6d365]/30 transition-all duration-300">
+                    <CardContent className="p-4 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Bookmark className="h-4 w-4 text-[#fda085]" />
+                        <h3 className="font-semibold text-foreground truncate flex-1">{collection.name}</h3>
+                        {!collection.is_public && <Lock className="h-3.5 w-3.5 text-muted-foreground" aria-label="Private" />}
+                      </div>
+                      {collection.description && (
+                        <p className="text-sm text-foreground/70 line-clamp-2">{collection.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {collection.item_count === 1 ? '1 project' : `${collection.item_count} projects`}
+                      </p>
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showMessageDialog && contactProject && (
+        <MessageDialog
+          isOpen={showMessageDialog}
+          onClose={() => setShowMessageDialog(false)}
+          projectId={contactProject.id}
+          creatorId={profile.user_id}
+          creatorName={profile.username}
+          projectName={contactProject.name}
+        />
+      )}
+    </div>
+  );
+}
@@ -13,10 +13,14 @@ import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Sparkles, X } from "lucide-react";
+import { ArrowLeft, Sparkles, MessageSquareWarning, History, Clock, GitCompare } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { ImageUpload } from "@/components/ImageUpload";
+import { ToolPicker } from "@/components/ToolPicker";
+import { ReviewHistory } from "@/components/ReviewHistory";
+import { RevisionHistory } from "@/components/RevisionHistory";
+import { ProjectChanges, ProjectEdit, editFieldLabels, toProjectEdit } from "@/lib/projectEdits";
 
 const editSchema = z.object({
   name: z.string().min(3, "Project name must be at least 3 characters"),
@@ -26,18 +30,13 @@ const editSchema = z.object({
   deeperStory: z.string().optional(),
   tools: z.array(z.string()).min(1, "Please select at least one AI tool"),
   allowsContact: z.boolean(),
+  allowsComments: z.boolean(),
   email: z.string().email("Please enter a valid email"),
   creatorName: z.string().min(2, "Creator name must be at least 2 characters")
 });
 
 type EditForm = z.infer<typeof editSchema>;
 
-const aiTools = [
-  "Claude", "GPT-4", "GPT-3.5", "Gemini", "Anthropic API", "OpenAI API",
-  "Midjourney", "DALL-E", "Stable Diffusion", "GitHub Copilot", 
-  "Cursor", "Replit", "v0", "Lovable", "Other"
-];
-
 export default function EditProject() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -45,8 +44,12 @@ export default function EditProject() {
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [selectedTools, setSelectedTools] = useState<string[]>([]);
-  const [customTool, setCustomTool] = useState("");
   const [screenshots, setScreenshots] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [reviewFeedback, setReviewFeedback] = useState<string | null>(null);
+  const [resubmitNote, setResubmitNote] = useState("");
+  const [latestEdit, setLatestEdit] = useState<ProjectEdit | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
   const form = useForm<EditForm>({
     resolver: zodResolver(editSchema),
@@ -58,6 +61,7 @@ export default function EditProject() {
       deeperStory: "",
       tools: [],
       allowsContact: true,
+      allowsComments: true,
       email: "",
       creatorName: ""
     }
@@ -91,21 +95,45 @@ export default function EditProject() {
         return;
       }
 
+      // Latest proposed edit, if any; a pending one is what the owner keeps working on
+      const { data: editData, error: editError } = await supabase
+        .from('project_edits')
+        .select('id, project_id, user_id, changes, flagged_fields, status, feedback, created_at')
+        .eq('project_id', id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (editError) {
+        console.error('Error loading pending edit:', editError);
+      }
+
+      const edit = editData ? toProjectEdit(editData) : null;
+      setLatestEdit(edit);
+
+      const source = {
+        ...data,
+        ...(edit?.status === 'pending' ? edit.changes : {})
+      };
+
       // Set form values
       form.reset({
-        name: data.name,
-        link: data.link,
-        description: data.description,
-        story: data.story,
-        deeperStory: data.deeper_story || "",
-        tools: data.tools,
-        allowsContact: data.allows_contact,
-        email: data.email,
-        creatorName: data.creator_name
+        name: source.name,
+        link: source.link,
+        description: source.description,
+        story: source.story,
+        deeperStory: source.deeper_story || "",
+        tools: source.tools,
+        allowsContact: source.allows_contact,
+        allowsComments: source.allows_comments,
+        email: source.email,
+        creatorName: source.creator_name
       });
 
-      setSelectedTools(data.tools);
-      setScreenshots(data.screenshots || []);
+      setSelectedTools(source.tools);
+      setScreenshots(source.screenshots || []);
+      setStatus(data.status);
+      setReviewFeedback(data.review_feedback);
     } catch (error) {
       console.error('Error:', error);
     } finally {
@@ -113,48 +141,94 @@ export default function EditProject() {
     }
   };
 
-  const addTool = (tool: string) => {
-    if (!selectedTools.includes(tool)) {
-      const newTools = [...selectedTools, tool];
-      setSelectedTools(newTools);
-      form.setValue("tools", newTools);
+  const discardPendingEdit = async () => {
+    if (!latestEdit || latestEdit.status !== 'pending') return;
+    if (!confirm('Discard your changes that are waiting for review?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('project_edits')
+        .delete()
+        .eq('id', latestEdit.id);
+
+      if (error) {
+        console.error('Error discarding edit:', error);
+        toast({
+          title: "Error",
+          description: "Failed to discard pending changes",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Pending changes discarded",
+        description: "The approved version of your project is unchanged.",
+      });
+      setLoading(true);
+      loadProject();
+    } catch (error) {
+      console.error('Error:', error);
     }
   };
 
-  const removeTool = (tool: string) => {
-    const newTools = selectedTools.filter(t => t !== tool);
-    setSelectedTools(newTools);
-    form.setValue("tools", newTools);
-  };
+  const restoreRevision = async (snapshot: Partial<ProjectChanges>) => {
+    if (!id) return;
 
-  const addCustomTool = () => {
-    if (customTool.trim() && !selectedTools.includes(customTool.trim())) {
-      addTool(customTool.trim());
-      setCustomTool("");
+    try {
+      // Rollbacks go through the same review rules as any other edit
+      const { data: result, error } = await supabase.rpc('save_project_edit', {
+        _project_id: id,
+        _changes: { ...snapshot }
+      });
+
+      if (error) {
+        console.error('Restore error:', error);
+        toast({
+          title: "Error",
+          description: "Failed to restore this version",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: result === 'pending_review' ? "Restore sent for review" : "Version restored",
+        description: result === 'pending_review'
+          ? "The restored content will go live once a moderator approves it."
+          : "Your project now uses the selected version.",
+      });
+
+      setHistoryRefreshKey(key => key + 1);
+      loadProject();
+    } catch (error) {
+      console.error('Error:', error);
     }
   };
 
   const onSubmit = async (data: EditForm) => {
     if (!id || !user) return;
 
+    const changes: ProjectChanges = {
+      name: data.name,
+      link: data.link,
+      description: data.description,
+      story: data.story,
+      deeper_story: data.deeperStory || null,
+      tools: data.tools,
+      allows_contact: data.allowsContact,
+      allows_comments: data.allowsComments,
+      email: data.email,
+      creator_name: data.creatorName,
+      screenshots
+    };
+
     try {
-      const { error } = await supabase
-        .from('projects')
-        .update({
-          name: data.name,
-          link: data.link,
-          description: data.description,
-          story: data.story,
-          deeper_story: data.deeperStory || null,
-          tools: data.tools,
-          allows_contact: data.allowsContact,
-          email: data.email,
-          creator_name: data.creatorName,
-          screenshots,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id)
-        .eq('user_id', user.id);
+      // Approved projects may be held for re-review depending on what changed
+      const { data: result, error } = await supabase.rpc('save_project_edit', {
+        _project_id: id,
+        _changes: { ...changes }
+      });
 
       if (error) {
         console.error('Update error:', error);
@@ -166,6 +240,40 @@ export default function EditProject() {
         return;
       }
 
+      if (result === 'pending_review') {
+        toast({
+          title: "Changes sent for review",
+          description: "Your settings are saved. The rest of your live project stays as it is until a moderator approves the update.",
+        });
+        navigate('/my-projects');
+        return;
+      }
+
+      // Rejected projects go straight back into the review queue with the changes
+      if (status === 'rejected') {
+        const { error: resubmitError } = await supabase.rpc('resubmit_project', {
+          _project_id: id,
+          _note: resubmitNote.trim() || undefined
+        });
+
+        if (resubmitError) {
+          console.error('Resubmit error:', resubmitError);
+          toast({
+            title: "Saved, but not resubmitted",
+            description: "Your changes were saved but the project could not be resubmitted for review.",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        toast({
+          title: "Resubmitted for review ✨",
+          description: "Your changes were saved and the project is back in the review queue.",
+        });
+        navigate('/my-projects');
+        return;
+      }
+
       toast({
         title: "Project Updated! ✨",
         description: "Your project has been successfully updated.",
@@ -232,6 +340,81 @@ export default function EditProject() {
           </div>
         </div>
 
+        {/* Edit awaiting re-review */}
+        {latestEdit?.status === 'pending' && (
+          <Card className="mb-6 border-yellow-200/40 bg-yellow-500/5 backdrop-blur-sm">
+            <CardContent className="p-6 space-y-3">
+              <div className="flex items-center gap-3 text-foreground font-light text-lg">
+                <Clock className="h-5 w-5 text-yellow-500" />
+                Changes awaiting review
+              </div>
+              <p className="text-sm text-foreground/80 leading-relaxed">
+                The approved version stays public until a moderator reviews your update. You're editing the pending version below.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {latestEdit.flagged_fields.map((field) => (
+                  <Badge key={field} variant="secondary" className="text-xs font-light">
+                    {editFieldLabels[field] || field}
+                  </Badge>
+                ))}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={discardPendingEdit}
+                className="border-border/30 hover:border-[#fda085]/50 hover:bg-[#fda085]/10 font-light"
+              >
+                Discard pending changes
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {latestEdit?.status === 'rejected' && status === 'approved' && (
+          <Card className="mb-6 border-red-200/40 bg-red-500/5 backdrop-blur-sm">
+            <CardContent className="p-6 space-y-3">
+              <div className="flex items-center gap-3 text-foreground font-light text-lg">
+                <MessageSquareWarning className="h-5 w-5 text-red-500" />
+                Your last update wasn't approved
+              </div>
+              <p className="text-sm text-foreground/80 leading-relaxed whitespace-pre-line">
+                {latestEdit.feedback || 'No feedback was left for this review.'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Moderator feedback */}
+        {status === 'rejected' && (
+          <Card className="mb-6 border-red-200/40 bg-red-500/5 backdrop-blur-sm">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-3 text-foreground font-light text-lg">
+                <MessageSquareWarning className="h-5 w-5 text-red-500" />
+                Changes requested
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-foreground/80 leading-relaxed whitespace-pre-line">
+                {reviewFeedback || 'No feedback was left for this review.'}
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="resubmit-note" className="font-light text-foreground/80">Note for the moderator (optional)</Label>
+                <Textarea
+                  id="resubmit-note"
+                  placeholder="Briefly describe what you changed..."
+                  value={resubmitNote}
+                  onChange={(e) => setResubmitNote(e.target.value)}
+                  className="border-border/30 focus:border-[#fda085]/50 focus:ring-[#fda085]/20 min-h-[80px] font-light"
+                />
+                <p className="text-xs text-muted-foreground font-light">
+                  Saving your changes will resubmit the project for review.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="border-border/30 bg-card/80 backdrop-blur-sm hover:bg-card/90 transition-all duration-300">
           <CardHeader>
             <CardTitle className="flex items-center gap-3 text-foreground font-light text-xl">
@@ -362,72 +545,13 @@ export default function EditProject() {
                   render={() => (
                     <FormItem>
                       <FormLabel className="font-light">AI Tools Used</FormLabel>
-                      <div className="space-y-6">
-                        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                          {aiTools.map((tool) => (
-                            <Button
-                              key={tool}
-                              type="button"
-                              variant={selectedTools.includes(tool) ? "default" : "outline"}
-                              size="sm"
-                              onClick={() => 
-                                selectedTools.includes(tool) 
-                                  ? removeTool(tool)
-                                  : addTool(tool)
-                              }
-                              className={selectedTools.includes(tool) 
-                                ? "bg-elegant-accent text-background font-light" 
-                                : "border-subtle-border hover:border-elegant-accent/30 font-light"
-                              }
-                            >
-                              {tool}
-                            </Button>
-                          ))}
-                        </div>
-                        
-                        {/* Custom Tool Input */}
-                        <div className="flex gap-3">
-                          <Input
-                            placeholder="Add custom tool..."
-                            value={customTool}
-                            onChange={(e) => setCustomTool(e.target.value)}
-                            className="border-subtle-border focus:border-elegant-accent/50 font-light"
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') {
-                                e.preventDefault();
-                                addCustomTool();
-                              }
-                            }}
-                          />
-                          <Button 
-                            type="button" 
-                            onClick={addCustomTool}
-                            variant="outline"
-                            className="border-subtle-border hover:border-elegant-accent/30 font-light"
-                          >
-                            Add
-                          </Button>
-                        </div>
-
-                        {/* Selected Tools */}
-                        {selectedTools.length > 0 && (
-                          <div className="flex flex-wrap gap-2">
-                            {selectedTools.map((tool) => (
-                              <Badge 
-                                key={tool} 
-                                variant="secondary"
-                                className="bg-secondary/30 text-secondary-foreground flex items-center gap-1 font-light"
-                              >
-                                {tool}
-                                <X 
-                                  className="h-3 w-3 cursor-pointer hover:text-destructive" 
-                                  onClick={() => removeTool(tool)}
-                                />
-                              </Badge>
-                            ))}
-                          </div>
-                        )}
-                      </div>
+                      <ToolPicker
+                        value={selectedTools}
+                        onChange={(tools) => {
+                          setSelectedTools(tools);
+                          form.setValue("tools", tools, { shouldValidate: true });
+                        }}
+                      />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -500,13 +624,37 @@ export default function EditProject() {
                   )}
                 />
 
+                {/* Comments Preference */}
+                <FormField
+                  control={form.control}
+                  name="allowsComments"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-lg border border-subtle-border p-6">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                      <div className="space-y-2 leading-none">
+                        <FormLabel className="font-light">
+                          Allow comments
+                        </FormLabel>
+                        <FormDescription className="font-light text-text-elegant leading-relaxed">
+                          Let visitors leave public comments under your story. Turning this off keeps existing comments visible but closes the thread.
+                        </FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
                 {/* Submit */}
                 <div className="flex gap-6 pt-8">
                   <Button 
                     type="submit" 
                     className="flex-1 bg-elegant-accent hover:bg-elegant-accent/90 text-background font-light py-3"
                   >
-                    Update Project
+                    {status === 'rejected' ? 'Update & Resubmit' : 'Update Project'}
                   </Button>
                   <Button 
                     type="button" 
@@ -521,6 +669,36 @@ export default function EditProject() {
             </Form>
           </CardContent>
         </Card>
+
+        {/* Revision History */}
+        {id && (
+          <Card className="mt-6 border-border/30 bg-card/80 backdrop-blur-sm">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-3 text-foreground font-light text-lg">
+                <GitCompare className="h-5 w-5 text-[#fda085]" />
+                History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RevisionHistory projectId={id} onRestore={restoreRevision} refreshKey={historyRefreshKey} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Review History */}
+        {id && user && (
+          <Card className="mt-6 border-border/30 bg-card/80 backdrop-blur-sm">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-3 text-foreground font-light text-lg">
+                <History className="h-5 w-5 text-[#fda085]" />
+                Review History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ReviewHistory projectId={id} ownerId={user.id} />
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
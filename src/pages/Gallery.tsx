@@ -1,12 +1,17 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { ProjectCard } from '@/components/ProjectCard';
 import { GalleryHeader } from '@/components/GalleryHeader';
+import type { ToolCount } from '@/components/GalleryFilters';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Plus } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { parseGalleryQuery, toGallerySearchParams, type GalleryQuery } from '@/lib/galleryQuery';
+import { adjustReactionCount, sameReactionCounts, toReactionCounts, withUserReaction, type ReactionCounts, type UserReactions } from '@/lib/reactions';
+import { useToast } from '@/hooks/use-toast';
+import { useLiveReactionCounts } from '@/hooks/use-live-reaction-counts';
 
 interface Project {
   id: string;
@@ -22,90 +27,183 @@ interface Project {
     name: string;
     allowsContact: boolean;
     avatar_url?: string;
+    username?: string;
   };
-  reactions: {
-    heart: number;
-    rocket: number;
-    lightbulb: number;
+  reactions: ReactionCounts;
+  created_at: string;
+  sort_score?: number;
+  highlights?: {
+    name: string;
+    snippet: string;
+    tools: string[];
   };
 }
 
+const PAGE_SIZE = 12;
+
 export default function Gallery() {
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [selectedTool, setSelectedTool] = useState('All');
-  const [userReactions, setUserReactions] = useState<Record<string, string>>({});
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  // Filters, search and sort live in the query string so a view can be bookmarked or shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseGalleryQuery(searchParams), [searchParams]);
+  const queryKey = toGallerySearchParams(query).toString();
+  // Tool counts don't depend on the search text, sort order or feed
+  const facetKey = toGallerySearchParams({ ...query, search: '', sort: 'newest', feed: 'all' }).toString();
+  const [searchQuery, setSearchQuery] = useState(query.search);
+  const [toolCounts, setToolCounts] = useState<ToolCount[]>([]);
+  const [userReactions, setUserReactions] = useState<UserReactions>({});
   const { user } = useAuth();
+  const { toast } = useToast();
   const navigate = useNavigate();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Ignore responses from requests made before the filters last changed
+  const requestIdRef = useRef(0);
+  const reactionsCheckedRef = useRef<Set<string>>(new Set());
+  // "projectId:reactionType" toggles still waiting on the database
+  const pendingReactionsRef = useRef<Set<string>>(new Set());
+  // Scores are computed as of the first page so trending doesn't drift while paging
+  const asOfRef = useRef(new Date().toISOString());
+
+  const updateQuery = (changes: Partial<GalleryQuery>, replace = false) => {
+    setSearchParams(prev => toGallerySearchParams({ ...parseGalleryQuery(prev), ...changes }), { replace });
+  };
 
+  // Debounce search so typing doesn't fire a query per keystroke
   useEffect(() => {
-    fetchProjects();
-    if (user) {
-      fetchUserReactions();
-    }
-  }, [user]);
+    const timeout = setTimeout(() => {
+      if (searchQuery.trim() !== query.search) {
+        updateQuery({ search: searchQuery.trim() }, true);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Keep the search box in step when the URL changes from outside, e.g. back/forward
+  useEffect(() => {
+    setSearchQuery(current => current.trim() === query.search ? current : query.search);
+  }, [query.search]);
+
+  useEffect(() => {
+    fetchToolCounts();
+  }, [facetKey]);
+
+  // The Following feed depends on who is signed in, so it also reloads when that changes
+  const feedUserId = query.feed === 'following' ? user?.id : undefined;
+
+  // Start over from the first page whenever the filters change
+  useEffect(() => {
+    fetchPage(true);
+  }, [queryKey, feedUserId]);
 
   // Listen for profile updates to refresh project data
   useEffect(() => {
     const handleProfileUpdate = () => {
-      fetchProjects();
+      fetchPage(true);
     };
 
     window.addEventListener('profile-updated', handleProfileUpdate);
     return () => {
       window.removeEventListener('profile-updated', handleProfileUpdate);
     };
-  }, []);
+  }, [queryKey]);
+
+  // The user's own reactions are fetched per page as projects load
+  useEffect(() => {
+    reactionsCheckedRef.current = new Set();
+    setUserReactions({});
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const uncheckedIds = projects.map(p => p.id).filter(id => !reactionsCheckedRef.current.has(id));
+    uncheckedIds.forEach(id => reactionsCheckedRef.current.add(id));
+    fetchUserReactions(uncheckedIds);
+  }, [user, projects]);
+
+  const fetchToolCounts = async () => {
+    const { data, error } = await supabase.rpc('get_gallery_tool_counts', {
+      _tools: query.tools,
+      _tool_mode: query.toolMode,
+      _from: query.from ?? undefined,
+      _to: query.to ?? undefined,
+      _has_screenshots: query.hasScreenshots
+    });
+
+    if (error) {
+      console.error('Error fetching tools:', error);
+      return;
+    }
+
+    setToolCounts(data || []);
+  };
+
+  const fetchPage = async (reset: boolean) => {
+    const requestId = reset ? ++requestIdRef.current : requestIdRef.current;
+    const lastProject = reset ? undefined : projects[projects.length - 1];
+
+    if (reset) {
+      asOfRef.current = new Date().toISOString();
+      setLoading(true);
+    } else {
+      setLoadingMore(true);
+    }
 
-  const fetchProjects = async () => {
     try {
-      // Fetch projects from public view (excludes sensitive email data)
-      const { data: projectsData, error: projectsError } = await supabase
-        .from('projects_public')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const filters = {
+        _tools: query.tools.length > 0 ? query.tools : undefined,
+        _tool_mode: query.toolMode,
+        _from: query.from ?? undefined,
+        _to: query.to ?? undefined,
+        _has_screenshots: query.hasScreenshots,
+        _following_only: query.feed === 'following'
+      };
+
+      // Searches are ranked by relevance, so they page by offset rather than by cursor.
+      // Otherwise fetch one page from the public view (excludes sensitive email data).
+      const { data: projectsData, error: projectsError } = query.search
+        ? await supabase.rpc('search_projects', {
+            ...filters,
+            _query: query.search,
+            _offset: reset ? 0 : projects.length,
+            _limit: PAGE_SIZE
+          })
+        : await supabase.rpc('get_gallery_projects', {
+            ...filters,
+            _sort: query.sort,
+            _as_of: asOfRef.current,
+            _cursor_score: lastProject?.sort_score,
+            _cursor_created_at: lastProject?.created_at,
+            _cursor_id: lastProject?.id,
+            _limit: PAGE_SIZE
+          });
 
       if (projectsError) {
         console.error('Error fetching projects:', projectsError);
         return;
       }
 
-      // Fetch all profiles for creators to get avatar URLs
-      const userIds = projectsData?.map(p => p.user_id) || [];
+      const userIds = Array.from(new Set(projectsData?.map(p => p.user_id) || []));
+
+      // Avatars only for this page
       const { data: profilesData, error: profilesError } = await supabase
         .from('profiles')
-        .select('user_id, avatar_url')
+        .select('user_id, username, avatar_url')
         .in('user_id', userIds);
 
       if (profilesError) {
         console.error('Error fetching profiles:', profilesError);
       }
 
-      // Create a map of user_id to avatar_url
-      const avatarMap: Record<string, string | undefined> = {};
-      profilesData?.forEach(profile => {
-        avatarMap[profile.user_id] = profile.avatar_url;
-      });
-
-      // Fetch reactions for real projects
-      const { data: reactionsData, error: reactionsError } = await supabase
-        .from('project_reactions')
-        .select('project_id, reaction_type');
+      if (requestId !== requestIdRef.current) return;
 
-      if (reactionsError) {
-        console.error('Error fetching reactions:', reactionsError);
-      }
-
-      // Count reactions by project and type
-      const reactionCounts: Record<string, Record<string, number>> = {};
-      
-      reactionsData?.forEach(reaction => {
-        if (!reactionCounts[reaction.project_id]) {
-          reactionCounts[reaction.project_id] = { heart: 0, rocket: 0, lightbulb: 0 };
-        }
-        reactionCounts[reaction.project_id][reaction.reaction_type] = 
-          (reactionCounts[reaction.project_id][reaction.reaction_type] || 0) + 1;
+      // Create a map of user_id to profile
+      const profileMap: Record<string, { avatar_url?: string; username?: string }> = {};
+      profilesData?.forEach(profile => {
+        profileMap[profile.user_id] = { avatar_url: profile.avatar_url, username: profile.username };
       });
 
       // Transform database projects to match UI interface
@@ -119,158 +217,145 @@ export default function Gallery() {
         tools: project.tools,
         screenshots: project.screenshots || [],
         user_id: project.user_id,
+        created_at: project.created_at,
+        sort_score: 'sort_score' in project ? project.sort_score : undefined,
         creator: {
           name: project.creator_name,
           allowsContact: project.allows_contact,
-          avatar_url: avatarMap[project.user_id]
+          avatar_url: profileMap[project.user_id]?.avatar_url,
+          username: profileMap[project.user_id]?.username
         },
-        reactions: {
-          heart: reactionCounts[project.id]?.heart || 0,
-          rocket: reactionCounts[project.id]?.rocket || 0,
-          lightbulb: reactionCounts[project.id]?.lightbulb || 0
-        }
+        reactions: toReactionCounts(project.reaction_counts),
+        highlights: 'snippet' in project ? {
+          name: project.name_highlight,
+          snippet: project.snippet,
+          tools: project.matched_tools || []
+        } : undefined
       })) || [];
 
-      setProjects(transformedProjects);
+      setProjects(prev => reset ? transformedProjects : [...prev, ...transformedProjects]);
+      setHasMore(transformedProjects.length === PAGE_SIZE);
     } catch (error) {
       console.error('Unexpected error:', error);
-      setProjects([]);
+      if (reset) setProjects([]);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
-    
-    setLoading(false);
   };
 
-  const fetchUserReactions = async () => {
-    if (!user) return;
+  const loadMore = useCallback(() => {
+    if (!loading && !loadingMore && hasMore) {
+      fetchPage(false);
+    }
+  }, [loading, loadingMore, hasMore, projects]);
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  const fetchUserReactions = async (projectIds: string[]) => {
+    if (!user || projectIds.length === 0) return;
 
     const { data, error } = await supabase
       .from('project_reactions')
       .select('project_id, reaction_type')
-      .eq('user_id', user.id);
+      .eq('user_id', user.id)
+      .in('project_id', projectIds);
 
     if (error) {
       console.error('Error fetching user reactions:', error);
       return;
     }
 
-    const reactions: Record<string, string> = {};
+    const reactions: UserReactions = {};
+    projectIds.forEach(id => {
+      reactions[id] = new Set();
+    });
     data?.forEach(reaction => {
-      reactions[reaction.project_id] = reaction.reaction_type;
+      reactions[reaction.project_id].add(reaction.reaction_type);
     });
-    setUserReactions(reactions);
+    setUserReactions(prev => ({ ...prev, ...reactions }));
   };
 
-  const handleReaction = async (projectId: string, reactionType: string) => {
-    if (!user) return;
+  const applyReaction = (projectId: string, reactionType: string, active: boolean) => {
+    setUserReactions(prev => withUserReaction(prev, projectId, reactionType, active));
+    setProjects(prev =>
+      prev.map(project => project.id !== projectId ? project : {
+        ...project,
+        reactions: adjustReactionCount(project.reactions, reactionType, active ? 1 : -1)
+      })
+    );
+  };
 
-    const currentReaction = userReactions[projectId];
-    
-    if (currentReaction === reactionType) {
-      // Remove reaction
-      const { error } = await supabase
-        .from('project_reactions')
-        .delete()
-        .eq('project_id', projectId)
-        .eq('user_id', user.id)
-        .eq('reaction_type', reactionType);
-
-      if (!error) {
-        setUserReactions(prev => {
-          const newReactions = { ...prev };
-          delete newReactions[projectId];
-          return newReactions;
-        });
-        // Refresh reaction counts
-        refreshReactionCounts();
-      }
-    } else {
-      // First, delete any existing reaction by this user for this project
-      if (currentReaction) {
-        const { error: deleteError } = await supabase
-          .from('project_reactions')
-          .delete()
-          .eq('project_id', projectId)
-          .eq('user_id', user.id);
+  // Counts from other visitors arrive in batches, only for the projects on the page
+  const changed = (project: Project, counts: Record<string, ReactionCounts>) =>
+    !!counts[project.id] && !sameReactionCounts(project.reactions, counts[project.id]);
 
-        if (deleteError) {
-          console.error('Error deleting existing reaction:', deleteError);
-          return;
-        }
-      }
+  useLiveReactionCounts(counts => {
+    setProjects(prev => {
+      if (!prev.some(project => changed(project, counts))) return prev;
+      return prev.map(project => changed(project, counts) ? { ...project, reactions: counts[project.id] } : project);
+    });
+  }, projects.map(project => project.id));
 
-      // Then insert the new reaction
-      const { error } = await supabase
-        .from('project_reactions')
-        .insert({
-          project_id: projectId,
-          user_id: user.id,
-          reaction_type: reactionType
-        });
-
-      if (!error) {
-        setUserReactions(prev => ({
-          ...prev,
-          [projectId]: reactionType
-        }));
-        // Refresh reaction counts
-        refreshReactionCounts();
-      }
-    }
-  };
+  // Each reaction is an independent toggle. The card updates immediately and is rolled
+  // back if the database rejects the change.
+  const handleReaction = async (projectId: string, reactionType: string) => {
+    if (!user) return;
 
-  const refreshReactionCounts = async () => {
-    try {
-      // Fetch updated reactions for all projects
-      const { data: reactionsData, error: reactionsError } = await supabase
-        .from('project_reactions')
-        .select('project_id, reaction_type');
+    const pendingKey = `${projectId}:${reactionType}`;
+    if (pendingReactionsRef.current.has(pendingKey)) return;
 
-      if (reactionsError) {
-        console.error('Error fetching reactions:', reactionsError);
-        return;
-      }
+    const active = !userReactions[projectId]?.has(reactionType);
+    pendingReactionsRef.current.add(pendingKey);
+    applyReaction(projectId, reactionType, active);
 
-      // Count reactions by project and type
-      const reactionCounts: Record<string, Record<string, number>> = {};
-      
-      reactionsData?.forEach(reaction => {
-        if (!reactionCounts[reaction.project_id]) {
-          reactionCounts[reaction.project_id] = { heart: 0, rocket: 0, lightbulb: 0 };
-        }
-        reactionCounts[reaction.project_id][reaction.reaction_type] = 
-          (reactionCounts[reaction.project_id][reaction.reaction_type] || 0) + 1;
+    const { error } = active
+      ? await supabase
+          .from('project_reactions')
+          .insert({
+            project_id: projectId,
+            user_id: user.id,
+            reaction_type: reactionType
+          })
+      : await supabase
+          .from('project_reactions')
+          .delete()
+          .eq('project_id', projectId)
+          .eq('user_id', user.id)
+          .eq('reaction_type', reactionType);
+
+    pendingReactionsRef.current.delete(pendingKey);
+
+    // Already reacted from another tab, so the state we show is right
+    if (error && error.code !== '23505') {
+      console.error('Error updating reaction:', error);
+      applyReaction(projectId, reactionType, !active);
+      toast({
+        title: "Error",
+        description: "Failed to update reaction.",
+        variant: "destructive"
       });
-
-      // Update projects with new reaction counts
-      setProjects(prevProjects => 
-        prevProjects.map(project => {
-          return {
-            ...project,
-            reactions: {
-              heart: reactionCounts[project.id]?.heart || 0,
-              rocket: reactionCounts[project.id]?.rocket || 0,
-              lightbulb: reactionCounts[project.id]?.lightbulb || 0
-            }
-          };
-        })
-      );
-    } catch (error) {
-      console.error('Error refreshing reaction counts:', error);
     }
   };
 
-  const filteredProjects = projects.filter(project => {
-    const matchesSearch = project.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         project.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         project.tools.some(tool => tool.toLowerCase().includes(searchQuery.toLowerCase()));
-    
-    const matchesTool = selectedTool === 'All' || project.tools.includes(selectedTool);
-    
-    return matchesSearch && matchesTool;
-  });
-
-  const allTools = ['All', ...Array.from(new Set(projects.flatMap(p => p.tools)))];
-
   // if (loading) {
   //   return (
   //     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
@@ -290,19 +375,28 @@ export default function Gallery() {
         <GalleryHeader 
           searchQuery={searchQuery}
           onSearchChange={setSearchQuery}
-          selectedTool={selectedTool}
-          onToolChange={setSelectedTool}
-          availableTools={allTools}
+          query={query}
+          onQueryChange={updateQuery}
+          toolCounts={toolCounts}
         />
 
-        {filteredProjects.length === 0 ? (
+        {loading ? (
+          <div className="flex items-center justify-center py-12 sm:py-16">
+            <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+          </div>
+        ) : projects.length === 0 && query.feed === 'following' ? (
+          <div className="text-center py-12 sm:py-16">
+            <p className="text-foreground/60 text-base sm:text-lg">Nothing here yet.</p>
+            <p className="text-foreground/40 mt-2 text-sm sm:text-base">Follow creators to see their new projects here.</p>
+          </div>
+        ) : projects.length === 0 ? (
           <div className="text-center py-12 sm:py-16">
             <p className="text-foreground/60 text-base sm:text-lg">No projects found matching your criteria.</p>
             {/* <p className="text-foreground/40 mt-2 text-sm sm:text-base">Try adjusting your search or filters.</p> */}
           </div>
         ) : (
           <div className="grid gap-4 sm:gap-6 md:gap-8 lg:gap-12">
-            {filteredProjects.map((project) => (
+            {projects.map((project) => (
               <ProjectCard 
                 key={project.id} 
                 project={project} 
@@ -313,6 +407,14 @@ export default function Gallery() {
           </div>
         )}
 
+        {/* Infinite scroll sentinel */}
+        <div ref={sentinelRef} className="h-px" />
+        {loadingMore && (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+          </div>
+        )}
+
         {/* Floating Action Button */}
         <div className="fixed bottom-6 right-6 z-50">
           <Button 
@@ -56,30 +56,20 @@ export default function MyProjectsPage() {
         return;
       }
 
-      // Get reactions for user's projects
+      // Totals come from the counters kept in project_stats
       const projectIds = projects?.map(p => p.id) || [];
       let totalReactions = 0;
       let totalViews = 0;
       
       if (projectIds.length > 0) {
-        // Get reactions
-        const { data: reactions, error: reactionsError } = await supabase
-          .from('project_reactions')
-          .select('reaction_type')
+        const { data: projectStats, error: statsError } = await supabase
+          .from('project_stats')
+          .select('reaction_count, view_count')
           .in('project_id', projectIds);
 
-        if (!reactionsError && reactions) {
-          totalReactions = reactions.length;
-        }
-
-        // Get real views from project_views table
-        const { data: views, error: viewsError } = await supabase
-          .from('project_views')
-          .select('id')
-          .in('project_id', projectIds);
-
-        if (!viewsError && views) {
-          totalViews = views.length;
+        if (!statsError && projectStats) {
+          totalReactions = projectStats.reduce((sum, row) => sum + row.reaction_count, 0);
+          totalViews = projectStats.reduce((sum, row) => sum + row.view_count, 0);
         }
       }
 
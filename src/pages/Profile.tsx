@@ -11,6 +11,7 @@ import { ArrowLeft, User, Upload, Save, Globe, Github, Twitter, Linkedin, Palett
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { usernameError } from "@/lib/username";
 
 export default function Profile() {
   const navigate = useNavigate();
@@ -28,6 +29,7 @@ export default function Profile() {
     linkedin: '',
     allow_contact: true
   });
+  const [usernameTaken, setUsernameTaken] = useState(false);
 
   // Update form when profile loads
   useEffect(() => {
@@ -46,6 +48,32 @@ export default function Profile() {
     }
   }, [profile]);
 
+  // Check availability as the username is typed
+  useEffect(() => {
+    setUsernameTaken(false);
+    if (!user || usernameError(formData.username) || formData.username === profile?.username) return;
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id')
+        .eq('username', formData.username)
+        .neq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking username:', error);
+        return;
+      }
+
+      setUsernameTaken(!!data);
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [formData.username, profile?.username, user]);
+
+  const usernameProblem = usernameError(formData.username) ?? (usernameTaken ? 'That username is already taken' : null);
+
   // Redirect if not authenticated
   useEffect(() => {
     if (!user) {
@@ -68,6 +96,15 @@ export default function Profile() {
       return;
     }
 
+    if (usernameProblem) {
+      toast({
+        title: "Check your username",
+        description: usernameProblem,
+        variant: "destructive"
+      });
+      return;
+    }
+
     // We'll save directly to the database using user.id, regardless of profile state
     setSaving(true);
     
@@ -77,7 +114,7 @@ export default function Profile() {
       const { error } = await supabase
         .from('profiles')
         .update({
-          username: formData.username || null,
+          username: formData.username,
           bio: formData.bio || null,
           website: formData.website || null,
           github: formData.github || null,
@@ -89,6 +126,11 @@ export default function Profile() {
 
       if (error) {
         console.error('❌ Profile save error:', error);
+        // Lost a race for the username with someone else
+        if (error.code === '23505') {
+          setUsernameTaken(true);
+          throw new Error('That username is already taken');
+        }
         throw error;
       }
 
@@ -322,10 +364,17 @@ export default function Profile() {
                     <Input
                       id="username"
                       value={formData.username}
-                      onChange={(e) => handleInputChange('username', e.target.value)}
+                      onChange={(e) => handleInputChange('username', e.target.value.toLowerCase().replace(/\s+/g, '-'))}
                       placeholder="Enter your username"
                       className="border-border/30 focus:border-[#fda085]/50 focus:ring-[#fda085]/20 mt-2"
                     />
+                    {usernameProblem ? (
+                      <p className="text-xs text-destructive mt-1.5">{usernameProblem}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground mt-1.5">
+                        Your public page: {window.location.origin}/u/{formData.username}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { format, parseISO, startOfWeek } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowLeft, Eye, Heart, MessageCircle, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useReactionTypes } from '@/hooks/use-reaction-types';
+import { toReactionCounts, type ReactionCounts } from '@/lib/reactions';
+
+interface DailyActivity {
+  day: string;
+  view_count: number;
+  signed_in_view_count: number;
+  reaction_count: number;
+  conversation_count: number;
+}
+
+interface Audience {
+  unique_viewers: number;
+  repeat_viewers: number;
+}
+
+type Granularity = 'daily' | 'weekly';
+
+const RANGES = [30, 90] as const;
+
+const activityChartConfig = {
+  views: { label: 'Views', color: '#f6d365' },
+  reactions: { label: 'Reactions', color: '#fda085' }
+} satisfies ChartConfig;
+
+const conversationChartConfig = {
+  conversations: { label: 'Conversations', color: '#fda085' }
+} satisfies ChartConfig;
+
+const viewerChartConfig = {
+  signedIn: { label: 'Signed in', color: '#f6d365' },
+  anonymous: { label: 'Anonymous', color: '#fda085' }
+} satisfies ChartConfig;
+
+// Weekly buckets start on Monday and are labelled by that day
+const bucketActivity = (days: DailyActivity[], granularity: Granularity) => {
+  const buckets = new Map<string, { label: string; views: number; reactions: number; conversations: number }>();
+
+  days.forEach(day => {
+    const date = parseISO(day.day);
+    const start = granularity === 'weekly' ? startOfWeek(date, { weekStartsOn: 1 }) : date;
+    const key = format(start, 'yyyy-MM-dd');
+    const bucket = buckets.get(key) || { label: format(start, 'MMM d'), views: 0, reactions: 0, conversations: 0 };
+
+    bucket.views += day.view_count;
+    bucket.reactions += day.reaction_count;
+    bucket.conversations += day.conversation_count;
+    buckets.set(key, bucket);
+  });
+
+  return Array.from(buckets.values());
+};
+
+export default function ProjectAnalytics() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const reactionTypes = useReactionTypes();
+  // undefined while loading, null when the project isn't the user's
+  const [projectName, setProjectName] = useState<string | null | undefined>(undefined);
+  const [range, setRange] = useState<number>(30);
+  const [granularity, setGranularity] = useState<Granularity>('daily');
+  const [activity, setActivity] = useState<DailyActivity[]>([]);
+  const [audience, setAudience] = useState<Audience | null>(null);
+  const [reactionCounts, setReactionCounts] = useState<ReactionCounts>({});
+  const [totalViews, setTotalViews] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  // Project details and all-time numbers don't depend on the selected range
+  useEffect(() => {
+    if (!id || !user) return;
+
+    const loadProject = async () => {
+      const [{ data: projectData, error: projectError }, { data: statsData, error: statsError }, { data: audienceData, error: audienceError }] = await Promise.all([
+        supabase
+          .from('projects')
+          .select('name')
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('project_stats')
+          .select('reaction_counts, view_count')
+          .eq('project_id', id)
+          .maybeSingle(),
+        supabase.rpc('get_project_audience', { _project_id: id })
+      ]);
+
+      if (projectError) console.error('Error fetching project:', projectError);
+      if (statsError) console.error('Error fetching project stats:', statsError);
+      if (audienceError) console.error('Error fetching audience:', audienceError);
+
+      setProjectName(projectData?.name ?? null);
+      setReactionCounts(toReactionCounts(statsData?.reaction_counts));
+      setTotalViews(statsData?.view_count ?? 0);
+      setAudience(audienceData?.[0] ?? null);
+    };
+
+    loadProject();
+  }, [id, user]);
+
+  useEffect(() => {
+    if (!id || !user) return;
+
+    const loadActivity = async () => {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('get_project_daily_activity', {
+        _project_id: id,
+        _days: range
+      });
+
+      if (error) {
+        console.error('Error fetching project activity:', error);
+      }
+
+      setActivity(data || []);
+      setLoading(false);
+    };
+
+    loadActivity();
+  }, [id, user, range]);
+
+  const series = useMemo(() => bucketActivity(activity, granularity), [activity, granularity]);
+
+  const totals = useMemo(() => activity.reduce(
+    (sum, day) => ({
+      views: sum.views + day.view_count,
+      signedInViews: sum.signedInViews + day.signed_in_view_count,
+      reactions: sum.reactions + day.reaction_count,
+      conversations: sum.conversations + day.conversation_count
+    }),
+    { views: 0, signedInViews: 0, reactions: 0, conversations: 0 }
+  ), [activity]);
+
+  // Inactive reaction types still show up if the project received them
+  const reactionBreakdown = useMemo(() => {
+    const labels = new Map(reactionTypes.map(type => [type.key, type.label]));
+    return Object.entries(reactionCounts)
+      .filter(([, count]) => count > 0)
+      .map(([key, count]) => ({ reaction: labels.get(key) || key, count }))
+      .sort((a, b) => b.count - a.count);
+  }, [reactionCounts, reactionTypes]);
+
+  const viewerShare = [
+    { segment: 'signedIn', views: totals.signedInViews, fill: 'var(--color-signedIn)' },
+    { segment: 'anonymous', views: totals.views - totals.signedInViews, fill: 'var(--color-anonymous)' }
+  ];
+
+  const percentage = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 100) : 0;
+
+  if (!user) {
+    return null;
+  }
+
+  if (projectName === null) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-foreground mb-4">Project not found</h2>
+          <Button onClick={() => navigate('/my-projects')} variant="outline" className="bg-gradient-to-r from-[#f6d365]/20 to-[#fda085]/20 hover:from-[#f6d365]/30 hover:to-[#fda085]/30 border-[#f6d365]/30 hover:border-[#f6d365]/50">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to My Projects
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const statItems = [
+    { label: `Views, last ${range} days`, value: totals.views, icon: Eye },
+    { label: `Reactions, last ${range} days`, value: totals.reactions, icon: Heart },
+    { label: `Conversations, last ${range} days`, value: totals.conversations, icon: MessageCircle },
+    { label: 'Unique viewers, last 30 days', value: audience?.unique_viewers ?? 0, icon: Users }
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 overflow-x-hidden">
+      <div className="absolute inset-0 bg-subtle-grid bg-grid opacity-30 pointer-events-none"></div>
+
+      <div className="relative container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 max-w-6xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/my-projects')}
+          className="text-muted-foreground hover:text-[#fda085] transition-colors duration-200 mb-4 -ml-2"
+          size="sm"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          My Projects
+        </Button>
+
+        {/* Header */}
+        <div className="flex flex-col items-center text-center space-y-4 mb-8">
+          <h1 className="font-['Playfair_Display'] text-3xl sm:text-[2.5rem] font-normal leading-[1.2] bg-gradient-to-br from-white via-[#f6d365] to-[#fda085] bg-clip-text text-transparent tracking-[0.01em]">
+            {projectName ?? 'Analytics'}
+          </h1>
+          <div className="w-8 lg:w-10 h-px bg-gradient-to-r from-[#f6d365] via-[#fda085] to-[#f6d365]"></div>
+          <p className="text-sm text-foreground/70 font-extralight tracking-[0.3px]">
+            {totalViews} views all time
+          </p>
+          <div className="flex flex-wrap justify-center gap-3">
+            <Tabs value={String(range)} onValueChange={(value) => setRange(Number(value))}>
+              <TabsList className="bg-card/60 backdrop-blur-sm border border-white/10 rounded-lg">
+                {RANGES.map(days => (
+                  <TabsTrigger key={days} value={String(days)} className="rounded-md data-[state=active]:bg-[#f6d365]/20 data-[state=active]:text-[#f6d365]">
+                    {days} days
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <Tabs value={granularity} onValueChange={(value) => setGranularity(value as Granularity)}>
+              <TabsList className="bg-card/60 backdrop-blur-sm border border-white/10 rounded-lg">
+                <TabsTrigger value="daily" className="rounded-md data-[state=active]:bg-[#f6d365]/20 data-[state=active]:text-[#f6d365]">
+                  Daily
+                </TabsTrigger>
+                <TabsTrigger value="weekly" className="rounded-md data-[state=active]:bg-[#f6d365]/20 data-[state=active]:text-[#f6d365]">
+                  Weekly
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 mb-6">
+          {statItems.map(({ label, value, icon: Icon }) => (
+            <Card key={label} className="bg-card/60 backdrop-blur-sm border-white/10">
+              <CardContent className="p-4 flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-gradient-to-br from-[#f6d365]/20 to-[#fda085]/20">
+                  <Icon className="h-4 w-4 text-[#fda085]" />
+                </div>
+                <div>
+                  <p className="text-xl font-semibold text-foreground">{value}</p>
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Views and reactions over time */}
+          <Card className="lg:col-span-2 bg-card/60 backdrop-blur-sm border-white/10">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Views and reactions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="h-[260px] flex items-center justify-center">
+                  <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin" />
+                </div>
+              ) : (
+                <ChartContainer config={activityChartConfig} className="h-[260px] w-full">
+                  <LineChart data={series} margin={{ left: -20, right: 8 }}>
+                    <CartesianGrid vertical={false} strokeOpacity={0.1} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line type="monotone" dataKey="views" stroke="var(--color-views)" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="reactions" stroke="var(--color-reactions)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Audience */}
+          <Card className="bg-card/60 backdrop-blur-sm border-white/10">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Audience</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {totals.views === 0 ? (
+                <p className="text-sm text-muted-foreground">No views in this period yet.</p>
+              ) : (
+                <ChartContainer config={viewerChartConfig} className="h-[180px] w-full">
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent nameKey="segment" hideLabel />} />
+                    <Pie data={viewerShare} dataKey="views" nameKey="segment" innerRadius={45} strokeWidth={2} />
+                    <ChartLegend content={<ChartLegendContent nameKey="segment" />} />
+                  </PieChart>
+                </ChartContainer>
+              )}
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Signed-in share</span>
+                  <span className="text-foreground">{percentage(totals.signedInViews, totals.views)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Unique viewers (30 days)</span>
+                  <span className="text-foreground">{audience?.unique_viewers ?? 0}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Came back more than once</span>
+                  <span className="text-foreground">
+                    {audience?.repeat_viewers ?? 0} ({percentage(audience?.repeat_viewers ?? 0, audience?.unique_viewers ?? 0)}%)
+                  </span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Reactions by type */}
+          <Card className="bg-card/60 backdrop-blur-sm border-white/10">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Reactions by type</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {reactionBreakdown.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reactions yet.</p>
+              ) : (
+                <ChartContainer config={{ count: { label: 'Reactions', color: '#fda085' } }} className="h-[220px] w-full">
+                  <BarChart data={reactionBreakdown} layout="vertical" margin={{ left: 8, right: 8 }}>
+                    <XAxis type="number" allowDecimals={false} hide />
+                    <YAxis type="category" dataKey="reaction" tickLine={false} axisLine={false} width={90} />
+                    <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+              <p className="text-xs text-muted-foreground mt-2">All time</p>
+            </CardContent>
+          </Card>
+
+          {/* Conversations started from the project page */}
+          <Card className="lg:col-span-2 bg-card/60 backdrop-blur-sm border-white/10">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Conversations started</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {totals.conversations === 0 ? (
+                <p className="text-sm text-muted-foreground">Nobody has reached out about this project in this period.</p>
+              ) : (
+                <ChartContainer config={conversationChartConfig} className="h-[220px] w-full">
+                  <BarChart data={series} margin={{ left: -20, right: 8 }}>
+                    <CartesianGrid vertical={false} strokeOpacity={0.1} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="conversations" fill="var(--color-conversations)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,22 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, ExternalLink, Heart, Rocket, Lightbulb, MessageCircle, Calendar, Globe, User, Eye, Sparkles, Mail, Github, Twitter, Linkedin } from "lucide-react";
+import { ArrowLeft, Heart, MessageCircle, Globe, User, Eye, Mail, Github, Twitter, Linkedin } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { MessageDialog } from '@/components/MessageDialog';
+import { ProjectShowcase } from '@/components/ProjectShowcase';
+import { FollowButton } from '@/components/FollowButton';
+import { ProjectComments } from '@/components/ProjectComments';
+import { SaveToCollection } from '@/components/SaveToCollection';
+import { ReactionIcon } from '@/components/ReactionIcon';
+import { AnimatedCount } from '@/components/AnimatedCount';
+import { useReactionTypes } from '@/hooks/use-reaction-types';
+import { useLiveReactionCounts } from '@/hooks/use-live-reaction-counts';
+import { getViewSessionId } from '@/lib/viewSession';
+import { adjustReactionCount, toReactionCounts, type ReactionCounts } from '@/lib/reactions';
 
 interface Project {
   id: string;
@@ -20,16 +29,14 @@ interface Project {
   screenshots: string[];
   creator_name: string;
   allows_contact: boolean;
+  allows_comments: boolean;
   created_at: string;
   user_id: string;
-  reactions: {
-    heart: number;
-    rocket: number;
-    lightbulb: number;
-  };
+  reactions: ReactionCounts;
 }
 
 interface CreatorProfile {
+  username: string;
   allow_contact: boolean;
   bio?: string;
   website?: string;
@@ -42,47 +49,43 @@ interface CreatorProfile {
 export default function ProjectDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, loading: authLoading } = useAuth();
   const { toast } = useToast();
   
   const [project, setProject] = useState<Project | null>(null);
   const [creatorProfile, setCreatorProfile] = useState<CreatorProfile | null>(null);
   const [loading, setLoading] = useState(true);
-  const [userReaction, setUserReaction] = useState<string | null>(null);
-  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [userReactions, setUserReactions] = useState<Set<string>>(new Set());
+  // Reaction toggles still waiting on the database
+  const pendingReactionsRef = useRef<Set<string>>(new Set());
   const [showMessageDialog, setShowMessageDialog] = useState(false);
+  const reactionTypes = useReactionTypes();
 
   useEffect(() => {
     if (id) {
       fetchProject();
       if (user) {
-        fetchUserReaction();
+        fetchUserReactions();
+      } else {
+        setUserReactions(new Set());
       }
-      // Track view
-      trackProjectView();
     }
   }, [id, user]);
 
-  const trackProjectView = async () => {
-    if (!id) return;
-    
-    try {
-      // Record view in project_views table (you'll need to create this table)
-      const { error } = await supabase
-        .from('project_views')
-        .insert({
-          project_id: id,
-          viewer_id: user?.id || null, // null for anonymous views
-          viewed_at: new Date().toISOString()
-        });
-
-      if (error) {
-        console.error('Error tracking view:', error);
-      }
-    } catch (error) {
-      console.error('Error tracking view:', error);
-    }
-  };
+  // Wait for auth so a signed-in visit isn't first recorded as anonymous; the database
+  // skips repeat views and crawlers
+  useEffect(() => {
+    if (!id || authLoading) return;
+
+    supabase
+      .rpc('record_project_view', {
+        _project_id: id,
+        _session_id: getViewSessionId()
+      })
+      .then(({ error }) => {
+        if (error) console.error('Error tracking view:', error);
+      });
+  }, [id, authLoading]);
 
   const fetchProject = async () => {
     try {
@@ -103,27 +106,10 @@ export default function ProjectDetail() {
         return;
       }
 
-      // Fetch reactions for this project
-      const { data: reactionsData, error: reactionsError } = await supabase
-        .from('project_reactions')
-        .select('reaction_type')
-        .eq('project_id', id);
-
-      if (reactionsError) {
-        console.error('Error fetching reactions:', reactionsError);
-      }
-
-      // Aggregate reactions
-      const reactions = { heart: 0, rocket: 0, lightbulb: 0 };
-      reactionsData?.forEach(reaction => {
-        if (reaction.reaction_type in reactions) {
-          reactions[reaction.reaction_type as keyof typeof reactions]++;
-        }
-      });
-
+      // Reaction counts are kept on the project row by the database
       const project: Project = {
         ...projectData,
-        reactions
+        reactions: toReactionCounts(projectData.reaction_counts)
       };
 
       setProject(project);
@@ -147,7 +133,7 @@ export default function ProjectDetail() {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('allow_contact, bio, website, github, twitter, linkedin, avatar_url')
+        .select('username, allow_contact, bio, website, github, twitter, linkedin, avatar_url')
         .eq('user_id', creatorId)
         .single();
 
@@ -162,7 +148,7 @@ export default function ProjectDetail() {
     }
   };
 
-  const fetchUserReaction = async () => {
+  const fetchUserReactions = async () => {
     if (!user || !id) return;
 
     try {
@@ -170,20 +156,42 @@ export default function ProjectDetail() {
         .from('project_reactions')
         .select('reaction_type')
         .eq('project_id', id)
-        .eq('user_id', user.id)
-        .maybeSingle();
+        .eq('user_id', user.id);
 
       if (error) {
-        console.error('Error fetching user reaction:', error);
+        console.error('Error fetching user reactions:', error);
         return;
       }
 
-      setUserReaction(data?.reaction_type || null);
+      setUserReactions(new Set((data || []).map(reaction => reaction.reaction_type)));
     } catch (error) {
       console.error('Error:', error);
     }
   };
 
+  const applyReaction = (reactionType: string, active: boolean) => {
+    setUserReactions(prev => {
+      const next = new Set(prev);
+      if (active) {
+        next.add(reactionType);
+      } else {
+        next.delete(reactionType);
+      }
+      return next;
+    });
+    setProject(prev => prev && {
+      ...prev,
+      reactions: adjustReactionCount(prev.reactions, reactionType, active ? 1 : -1)
+    });
+  };
+
+  // Keep counts live while other people react to this project
+  useLiveReactionCounts(counts => {
+    if (!id || !counts[id]) return;
+    setProject(prev => prev ? { ...prev, reactions: counts[id] } : prev);
+  }, id ? [id] : []);
+
+  // Reactions are independent toggles, shown immediately and rolled back if saving fails
   const handleReaction = async (reactionType: string) => {
     if (!user) {
       toast({
@@ -194,51 +202,33 @@ export default function ProjectDetail() {
       return;
     }
 
-    if (!id || !project) return;
+    if (!id || !project || pendingReactionsRef.current.has(reactionType)) return;
 
-    try {
-      const isCurrentReaction = userReaction === reactionType;
+    const active = !userReactions.has(reactionType);
+    pendingReactionsRef.current.add(reactionType);
+    applyReaction(reactionType, active);
 
-      if (isCurrentReaction) {
-        // Remove reaction
-        const { error } = await supabase
-          .from('project_reactions')
-          .delete()
-          .eq('project_id', id)
-          .eq('user_id', user.id)
-          .eq('reaction_type', reactionType);
-
-        if (error) throw error;
-        setUserReaction(null);
-      } else {
-        // First, delete any existing reaction by this user for this project
-        if (userReaction) {
-          const { error: deleteError } = await supabase
-            .from('project_reactions')
-            .delete()
-            .eq('project_id', id)
-            .eq('user_id', user.id);
-
-          if (deleteError) throw deleteError;
-        }
-
-        // Then insert the new reaction
-        const { error } = await supabase
+    const { error } = active
+      ? await supabase
           .from('project_reactions')
           .insert({
             project_id: id,
             user_id: user.id,
             reaction_type: reactionType
-          });
+          })
+      : await supabase
+          .from('project_reactions')
+          .delete()
+          .eq('project_id', id)
+          .eq('user_id', user.id)
+          .eq('reaction_type', reactionType);
 
-        if (error) throw error;
-        setUserReaction(reactionType);
-      }
+    pendingReactionsRef.current.delete(reactionType);
 
-      // Refresh project data to update reaction counts
-      fetchProject();
-    } catch (error) {
+    // A duplicate means the reaction was already saved, e.g. from another tab
+    if (error && error.code !== '23505') {
       console.error('Error handling reaction:', error);
+      applyReaction(reactionType, !active);
       toast({
         title: "Error",
         description: "Failed to update reaction.",
@@ -247,15 +237,6 @@ export default function ProjectDetail() {
     }
   };
 
-  const getReactionIcon = (type: string) => {
-    switch (type) {
-      case 'heart': return Heart;
-      case 'rocket': return Rocket;
-      case 'lightbulb': return Lightbulb;
-      default: return Heart;
-    }
-  };
-
   const canContactCreator = () => {
     return project?.allows_contact && 
            creatorProfile?.allow_contact && 
@@ -346,165 +327,12 @@ export default function ProjectDetail() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6 lg:space-y-8">
-            {/* Project Header - Name and Description First */}
-            <Card className="group relative overflow-hidden border-border/50 hover:border-white/20 transition-all duration-300 hover:shadow-xl hover:shadow-[#fda085]/5 bg-card/90 backdrop-blur-sm hover:-translate-y-1">
-              <div className="absolute inset-0 bg-gradient-to-br from-[#f6d365]/3 via-transparent to-[#fda085]/3 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
-              
-              <CardContent className="relative p-6 sm:p-8">
-                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-6 mb-6">
-                  <div className="flex-1">
-                    <div className="flex items-start gap-4 mb-4">
-                      {creatorProfile?.avatar_url ? (
-                        <img
-                          src={creatorProfile.avatar_url}
-                          alt={project.creator_name}
-                          className="w-12 h-12 rounded-full object-cover shadow-lg border-2 border-[#f6d365]/20 flex-shrink-0"
-                        />
-                      ) : (
-                        <div className="w-12 h-12 rounded-full flex items-center justify-center text-white text-sm font-bold shadow-lg bg-gradient-to-br from-[#f6d365] via-[#fda085] to-[#f6d365] flex-shrink-0">
-                          {project.creator_name.split(' ').map(n => n[0]).join('')}
-                        </div>
-                      )}
-                      <div className="flex-1 min-w-0">
-                        <p className="text-xs sm:text-sm text-muted-foreground mb-2 font-medium">Built by {project.creator_name}</p>
-                        <h1 className="text-xl sm:text-2xl md:text-3xl lg:text-4xl xl:text-5xl font-bold text-foreground leading-tight group-hover:text-[#f6d365] transition-colors duration-300">
-                          {project.name}
-                        </h1>
-                      </div>
-                    </div>
-                    <div className="flex flex-wrap items-center gap-2 sm:gap-4 text-foreground/60 text-xs sm:text-sm mb-4">
-                      <div className="flex items-center gap-2">
-                        <Calendar className="h-4 w-4" />
-                        <span>Submitted: {new Date(project.created_at).toLocaleDateString()}</span>
-                      </div>
-                      {/* <div className="flex items-center gap-2">
-                        <Eye className="h-4 w-4" />
-                        <span>Project Details</span>
-                      </div> */}
-                    </div>
-                  </div>
-                  <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
-                    <Button 
-                      onClick={() => window.open(project.link, '_blank')}
-                      className="bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-white font-semibold shadow-lg hover:shadow-xl hover:shadow-[#fda085]/20 transition-all duration-300 hover:scale-105 text-sm sm:text-base"
-                    >
-                      <ExternalLink className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-2" />
-                      View Live
-                    </Button>
-                  </div>
-                </div>
-
-                {/* Tools */}
-                <div className="flex flex-wrap gap-2 mb-6">
-                  {project.tools.map((tool, index) => (
-                    <Badge 
-                      key={tool} 
-                      variant="secondary"
-                      className={`text-xs px-3 py-1.5 border transition-all duration-300 ${
-                        index % 2 === 0 
-                          ? 'bg-gradient-to-r from-[#f6d365]/10 to-[#fda085]/10 hover:from-[#f6d365]/20 hover:to-[#fda085]/20 text-foreground/90 border-[#f6d365]/20 hover:border-[#f6d365]/40' 
-                          : 'bg-gradient-to-r from-[#fda085]/10 to-[#f6d365]/10 hover:from-[#fda085]/20 hover:to-[#f6d365]/20 text-foreground/90 border-[#fda085]/20 hover:border-[#fda085]/40'
-                      }`}
-                    >
-                      {tool}
-                    </Badge>
-                  ))}
-                </div>
-
-                {/* Description */}
-                <p className="text-foreground/80 text-lg leading-relaxed">
-                  {project.description}
-                </p>
-              </CardContent>
-            </Card>
-
-            {/* Story Section */}
-            <Card className="border-border/50 bg-card/90 backdrop-blur-sm">
-              <CardContent className="p-6 sm:p-8">
-                <div className="flex items-center gap-3 mb-6">
-                  <Sparkles className="h-6 w-6 text-[#fda085]" />
-                  <h2 className="text-xl sm:text-2xl lg:text-3xl font-semibold text-foreground">The Story</h2>
-                </div>
-                
-                <div className="space-y-6">
-                  {/* Main Story - Always shown as a quote */}
-                  <div className="relative">
-                    <div className="absolute left-0 top-0 bottom-0 w-1 bg-gradient-to-b from-[#f6d365] to-[#fda085] rounded-full"></div>
-                    <div className="pl-6">
-                      <blockquote className="text-sm sm:text-base lg:text-lg xl:text-xl leading-relaxed italic text-foreground/90 font-normal">
-                        "{project.story}"
-                      </blockquote>
-                    </div>
-                  </div>
-                  
-                  {/* Detailed Story - Only shown if exists */}
-                  {project.deeper_story && (
-                    <div className="border-t border-border/30 pt-6">
-                      <div className="prose prose-lg max-w-none">
-                        <div className="text-foreground/80 leading-relaxed whitespace-pre-line text-sm sm:text-base lg:text-lg">
-                          {project.deeper_story}
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            </Card>
-
-            {/* Screenshots Gallery - Integrated carefully */}
-            {project.screenshots && project.screenshots.length > 0 && (
-              <Card className="group relative overflow-hidden border-border/50 hover:border-white/20 transition-all duration-300 hover:shadow-xl hover:shadow-[#fda085]/5 bg-card/90 backdrop-blur-sm hover:-translate-y-1">
-                <div className="absolute inset-0 bg-gradient-to-br from-[#f6d365]/3 via-transparent to-[#fda085]/3 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
-                
-                <CardContent className="relative p-0">
-                  <div className="relative">
-                    <img 
-                      src={project.screenshots[currentImageIndex]} 
-                      alt={`${project.name} screenshot ${currentImageIndex + 1}`}
-                      className="w-full h-48 sm:h-64 md:h-80 lg:h-96 object-cover transition-transform duration-300 group-hover:scale-[1.02]"
-                    />
-                    {project.screenshots.length > 1 && (
-                      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 flex gap-2">
-                        {project.screenshots.map((_, index) => (
-                          <button
-                            key={index}
-                            onClick={() => setCurrentImageIndex(index)}
-                            className={`w-3 h-3 rounded-full transition-all ${
-                              currentImageIndex === index 
-                                ? 'bg-gradient-to-r from-[#f6d365] to-[#fda085] shadow-lg' 
-                                : 'bg-white/50 hover:bg-white/70'
-                            }`}
-                          />
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                  {project.screenshots.length > 1 && (
-                    <div className="p-4 border-t border-white/10">
-                      <div className="flex gap-2 overflow-x-auto">
-                        {project.screenshots.map((screenshot, index) => (
-                          <button
-                            key={index}
-                            onClick={() => setCurrentImageIndex(index)}
-                            className={`flex-shrink-0 w-20 h-16 rounded-lg overflow-hidden border-2 transition-all ${
-                              currentImageIndex === index 
-                                ? 'border-[#fda085] shadow-lg' 
-                                : 'border-border/30 hover:border-[#f6d365]/50'
-                            }`}
-                          >
-                            <img 
-                              src={screenshot} 
-                              alt={`Thumbnail ${index + 1}`}
-                              className="w-full h-full object-cover"
-                            />
-                          </button>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            )}
+            <ProjectShowcase project={project} avatarUrl={creatorProfile?.avatar_url} />
+            <ProjectComments
+              projectId={project.id}
+              projectOwnerId={project.user_id}
+              allowsComments={project.allows_comments}
+            />
           </div>
 
           {/* Sidebar */}
@@ -565,6 +393,19 @@ export default function ProjectDetail() {
                       <MessageCircle className="h-4 w-4 mr-2" />
                       {user ? `Message ${project.creator_name}` : 'Sign in to Message'}
                     </Button>
+                    <FollowButton
+                      creatorId={project.user_id}
+                      creatorName={project.creator_name}
+                      className="w-full mt-3 py-2.5 rounded-lg"
+                    />
+                    {creatorProfile && (
+                      <Link
+                        to={`/u/${creatorProfile.username}`}
+                        className="block text-center text-xs text-muted-foreground hover:text-[#fda085] transition-colors mt-3"
+                      >
+                        View {project.creator_name}'s profile
+                      </Link>
+                    )}
                 </CardContent>
               </Card>
             )}
@@ -579,7 +420,9 @@ export default function ProjectDetail() {
                     </div>
                     <div>
                       <h3 className="text-lg font-semibold text-foreground">About the Creator</h3>
-                      <p className="text-sm text-muted-foreground">{project.creator_name}</p>
+                      <Link to={`/u/${creatorProfile.username}`} className="text-sm text-muted-foreground hover:text-[#fda085] transition-colors">
+                        {project.creator_name}
+                      </Link>
                     </div>
                   </div>
                   
@@ -616,6 +459,12 @@ export default function ProjectDetail() {
                       </a>
                     )}
                   </div>
+
+                  <FollowButton
+                    creatorId={project.user_id}
+                    creatorName={project.creator_name}
+                    className="w-full mt-4 rounded-lg"
+                  />
                 </CardContent>
               </Card>
             )}
@@ -638,9 +487,10 @@ export default function ProjectDetail() {
                 </p>
                 
                 <div className="space-y-2">
-                  {Object.entries(project.reactions).map(([type, count]) => {
-                    const Icon = getReactionIcon(type);
-                    const isActive = userReaction === type;
+                  {reactionTypes.map((reaction) => {
+                    const type = reaction.key;
+                    const count = project.reactions[type] || 0;
+                    const isActive = userReactions.has(type);
                     
                     return (
                       <Button
@@ -655,14 +505,16 @@ export default function ProjectDetail() {
                         onClick={() => handleReaction(type)}
                       >
                         <div className="flex items-center gap-3">
-                          <Icon className={`h-4 w-4 ${isActive ? 'text-[#fda085]' : 'text-muted-foreground'}`} />
-                          <span className="font-medium capitalize text-sm">{type}</span>
+                          <ReactionIcon reaction={reaction} className={`h-4 w-4 text-sm ${isActive ? 'text-[#fda085]' : 'text-muted-foreground'}`} />
+                          <span className="font-medium text-sm">{reaction.label}</span>
                         </div>
-                        <span className="text-sm font-medium text-[#fda085]">{count}</span>
+                        <AnimatedCount value={count} className="text-sm font-medium text-[#fda085]" />
                       </Button>
                     );
                   })}
                 </div>
+
+                <SaveToCollection projectId={project.id} triggerClassName="w-full mt-4 rounded-lg" />
                 
                 {!user && (
                   <div className="mt-4 p-3 rounded-lg bg-muted/30 border border-border/50">
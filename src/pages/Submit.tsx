@@ -8,7 +8,6 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import {
   Form,
@@ -20,11 +19,12 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Sparkles, X } from "lucide-react";
+import { ArrowLeft, Sparkles } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { ImageUpload } from "@/components/ImageUpload";
+import { ToolPicker } from "@/components/ToolPicker";
 
 const submitSchema = z.object({
   name: z.string().min(3, "Project name must be at least 3 characters"),
@@ -34,23 +34,17 @@ const submitSchema = z.object({
   deeperStory: z.string().optional(),
   tools: z.array(z.string()).min(1, "Please select at least one AI tool"),
   allowsContact: z.boolean(),
+  allowsComments: z.boolean(),
   creatorName: z.string().min(2, "Creator name must be at least 2 characters")
 });
 
 type SubmitForm = z.infer<typeof submitSchema>;
 
-const aiTools = [
-  "Claude", "GPT-4", "Gemini",
-  "Midjourney", "Bolt", "Bubble",
-  "Cursor", "Replit", "v0", "Lovable"
-];
-
 export default function Submit() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user, profile } = useAuth();
   const [selectedTools, setSelectedTools] = useState<string[]>([]);
-  const [customTool, setCustomTool] = useState("");
   const [screenshots, setScreenshots] = useState<string[]>([]);
 
   const form = useForm<SubmitForm>({
@@ -63,6 +57,7 @@ export default function Submit() {
       deeperStory: "",
       tools: [],
       allowsContact: true,
+      allowsComments: true,
       creatorName: ""
     }
   });
@@ -83,27 +78,6 @@ export default function Submit() {
     }
   }, [profile, user, form]);
 
-  const addTool = (tool: string) => {
-    if (!selectedTools.includes(tool)) {
-      const newTools = [...selectedTools, tool];
-      setSelectedTools(newTools);
-      form.setValue("tools", newTools);
-    }
-  };
-
-  const removeTool = (tool: string) => {
-    const newTools = selectedTools.filter(t => t !== tool);
-    setSelectedTools(newTools);
-    form.setValue("tools", newTools);
-  };
-
-  const addCustomTool = () => {
-    if (customTool.trim() && !selectedTools.includes(customTool.trim())) {
-      addTool(customTool.trim());
-      setCustomTool("");
-    }
-  };
-
   const onSubmit = async (data: SubmitForm) => {
     console.log('Submit function called with data:', data);
     console.log('Current user:', user);
@@ -142,6 +116,7 @@ export default function Submit() {
             deeper_story: data.deeperStory || null,
             tools: data.tools,
             allows_contact: data.allowsContact,
+            allows_comments: data.allowsComments,
             email: user.email || '',
             creator_name: data.creatorName,
             screenshots,
@@ -409,73 +384,13 @@ export default function Submit() {
                   render={() => (
                     <FormItem>
                       <FormLabel className="font-light text-sm sm:text-base text-foreground/90">AI Tools Used</FormLabel>
-                      <div className="space-y-4 sm:space-y-6">
-                        <div className="grid grid-cols-2 xs:grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-2 sm:gap-3">
-                          {aiTools.map((tool) => (
-                            <Button
-                              key={tool}
-                              type="button"
-                              variant={selectedTools.includes(tool) ? "default" : "outline"}
-                              size="sm"
-                              onClick={() => 
-                                selectedTools.includes(tool) 
-                                  ? removeTool(tool)
-                                  : addTool(tool)
-                              }
-                              className={`text-xs sm:text-sm rounded-xl transition-all duration-300 ${
-                                selectedTools.includes(tool) 
-                                  ? "bg-gradient-to-r from-[#f6d365] to-[#fda085] hover:from-[#fda085] hover:to-[#f6d365] text-gray-900 font-medium shadow-md" 
-                                  : "border-white/20 hover:border-[#f6d365]/40 hover:bg-gradient-to-r hover:from-[#f6d365]/5 hover:to-[#fda085]/5 font-light"
-                              }`}
-                            >
-                              {tool}
-                            </Button>
-                          ))}
-                        </div>
-                        
-                        {/* Custom Tool Input */}
-                        <div className="flex flex-col xs:flex-row gap-2 xs:gap-3">
-                          <Input
-                            placeholder="Add custom tool..."
-                            value={customTool}
-                            onChange={(e) => setCustomTool(e.target.value)}
-                            className="border-white/20 focus:border-[#f6d365]/50 focus:ring-[#f6d365]/10 bg-background/60 backdrop-blur-sm font-light rounded-xl transition-all duration-300 flex-1"
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') {
-                                e.preventDefault();
-                                addCustomTool();
-                              }
-                            }}
-                          />
-                          <Button 
-                            type="button" 
-                            onClick={addCustomTool}
-                            variant="outline"
-                            className="border-white/20 hover:border-[#f6d365]/40 hover:bg-gradient-to-r hover:from-[#f6d365]/5 hover:to-[#fda085]/5 font-light rounded-xl transition-all duration-300 w-full xs:w-auto"
-                          >
-                            Add
-                          </Button>
-                        </div>
-
-                        {/* Selected Tools */}
-                        {selectedTools.length > 0 && (
-                          <div className="flex flex-wrap gap-2">
-                            {selectedTools.map((tool) => (
-                              <Badge 
-                                key={tool} 
-                                variant="secondary"
-                                className="bg-gradient-to-r from-[#f6d365]/20 to-[#fda085]/20 text-foreground/90 border-[#f6d365]/30 flex items-center gap-1 font-medium rounded-full px-3 py-1"
-                              >
-                                {tool}
-                                <X 
-                                  className="h-3 w-3 cursor-pointer hover:text-destructive transition-colors duration-200" 
-                                  onClick={() => removeTool(tool)}
-                                />
-                              </Badge>
-                            ))}
-                          </div>
-                        )}
-                      </div>
+                      <ToolPicker
+                        value={selectedTools}
+                        onChange={(tools) => {
+                          setSelectedTools(tools);
+                          form.setValue("tools", tools, { shouldValidate: true });
+                        }}
+                      />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -514,6 +429,31 @@ export default function Submit() {
                   )}
                 />
 
+                {/* Comments Preference */}
+                <FormField
+                  control={form.control}
+                  name="allowsComments"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-xl border border-white/20 p-6 bg-background/40 backdrop-blur-sm">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          className="border-white/30 data-[state=checked]:bg-[#f6d365] data-[state=checked]:border-[#f6d365]"
+                        />
+                      </FormControl>
+                      <div className="space-y-2 leading-none">
+                        <FormLabel className="font-light text-sm sm:text-base">
+                          Allow comments
+                        </FormLabel>
+                        <FormDescription className="font-light text-muted-foreground leading-relaxed text-sm">
+                          Let visitors leave public comments under your story. Turning this off keeps existing comments visible but closes the thread.
+                        </FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
                 {/* Submit */}
                 <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 md:gap-6 pt-6 sm:pt-8">
                   <Button 
@@ -0,0 +1,369 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { ArrowLeft, ExternalLink, Eye, Heart, Layers, Users } from "lucide-react";
+import { ProjectTile } from "@/components/ProjectTile";
+import { supabase } from "@/integrations/supabase/client";
+import { toolCategoryLabels, toolSlug, type ToolRecord } from "@/lib/tools";
+
+interface ToolProject {
+  id: string;
+  name: string;
+  description: string;
+  screenshots: string[];
+  creator_name: string;
+  created_at: string;
+  tools: string[];
+}
+
+interface ToolStats {
+  project_count: number;
+  creator_count: number;
+  reaction_count: number;
+  view_count: number;
+}
+
+interface Pairing {
+  tool: string;
+  project_count: number;
+}
+
+interface TopCreator {
+  user_id: string;
+  creator_name: string;
+  project_count: number;
+  reaction_count: number;
+  avatar_url?: string | null;
+  username?: string;
+}
+
+const PAGE_SIZE = 12;
+
+export default function ToolPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  // Unregistered tools still get a page, just without the registry details
+  const [tool, setTool] = useState<ToolRecord | null>(null);
+  const [toolName, setToolName] = useState<string | null>(null);
+  const [stats, setStats] = useState<ToolStats | null>(null);
+  const [pairings, setPairings] = useState<Pairing[]>([]);
+  const [topCreators, setTopCreators] = useState<TopCreator[]>([]);
+  const [projects, setProjects] = useState<ToolProject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  // Only the latest load may update state, so a slow earlier tool can't overwrite it
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (slug) {
+      loadTool(slug);
+    }
+  }, [slug]);
+
+  const loadTool = async (toolSlugParam: string) => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setTool(null);
+    setToolName(null);
+    setStats(null);
+    setPairings([]);
+    setTopCreators([]);
+    setProjects([]);
+    setHasMore(false);
+
+    try {
+      const { data: toolData, error: toolError } = await supabase
+        .from('tools')
+        .select('*')
+        .eq('slug', toolSlugParam)
+        .maybeSingle();
+
+      if (toolError) {
+        console.error('Error fetching tool:', toolError);
+      }
+
+      let name = toolData?.name ?? null;
+
+      if (!name) {
+        const { data: toolCounts, error: countsError } = await supabase.rpc('get_gallery_tool_counts');
+
+        if (countsError) {
+          console.error('Error fetching tools:', countsError);
+        }
+
+        name = toolCounts?.find(t => toolSlug(t.tool) === toolSlugParam)?.tool ?? null;
+      }
+
+      if (requestId !== requestIdRef.current) return;
+
+      setTool(toolData ?? null);
+      setToolName(name);
+
+      if (!name) return;
+
+      const [
+        { data: statsData, error: statsError },
+        { data: pairingsData, error: pairingsError },
+        { data: creatorsData, error: creatorsError }
+      ] = await Promise.all([
+        supabase.rpc('get_tool_stats', { _tool: name }),
+        supabase.rpc('get_tool_pairings', { _tool: name, _limit: 8 }),
+        supabase.rpc('get_tool_top_creators', { _tool: name, _limit: 5 })
+      ]);
+
+      if (statsError) console.error('Error fetching tool stats:', statsError);
+      if (pairingsError) console.error('Error fetching paired tools:', pairingsError);
+      if (creatorsError) console.error('Error fetching top creators:', creatorsError);
+
+      if (requestId !== requestIdRef.current) return;
+
+      setStats(statsData?.[0] ?? null);
+      setPairings(pairingsData || []);
+
+      const creatorIds = creatorsData?.map(c => c.user_id) || [];
+      const { data: profilesData } = creatorIds.length > 0
+        ? await supabase.from('profiles').select('user_id, username, avatar_url').in('user_id', creatorIds)
+        : { data: [] };
+
+      if (requestId !== requestIdRef.current) return;
+
+      setTopCreators((creatorsData || []).map(creator => {
+        const creatorProfile = profilesData?.find(p => p.user_id === creator.user_id);
+        return {
+          ...creator,
+          avatar_url: creatorProfile?.avatar_url,
+          username: creatorProfile?.username
+        };
+      }));
+
+      await fetchProjects(name, [], requestId);
+    } catch (error) {
+      console.error('Unexpected error:', error);
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  const fetchProjects = async (name: string, current: ToolProject[], requestId: number) => {
+    const lastProject = current[current.length - 1];
+
+    const { data, error } = await supabase.rpc('get_gallery_projects', {
+      _tools: [name],
+      _cursor_created_at: lastProject?.created_at,
+      _cursor_id: lastProject?.id,
+      _limit: PAGE_SIZE
+    });
+
+    if (requestId !== requestIdRef.current) return;
+
+    if (error) {
+      console.error('Error fetching projects:', error);
+      return;
+    }
+
+    const page = (data || []).map(project => ({
+      id: project.id,
+      name: project.name,
+      description: project.description,
+      screenshots: project.screenshots || [],
+      creator_name: project.creator_name,
+      created_at: project.created_at,
+      tools: project.tools
+    }));
+
+    setProjects([...current, ...page]);
+    setHasMore(page.length === PAGE_SIZE);
+  };
+
+  const loadMore = async () => {
+    if (!toolName) return;
+    setLoadingMore(true);
+    await fetchProjects(toolName, projects, requestIdRef.current);
+    setLoadingMore(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-[#f6d365]/30 border-t-[#fda085] rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-foreground/70">Loading tool...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!toolName) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-semibold text-foreground mb-4">Tool not found</h2>
+          <Button onClick={() => navigate('/gallery')} variant="outline" className="bg-gradient-to-r from-[#f6d365]/20 to-[#fda085]/20 hover:from-[#f6d365]/30 hover:to-[#fda085]/30 border-[#f6d365]/30 hover:border-[#f6d365]/50">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Gallery
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const statItems = [
+    { label: 'Projects', value: stats?.project_count ?? 0, icon: Layers },
+    { label: 'Creators', value: stats?.creator_count ?? 0, icon: Users },
+    { label: 'Reactions', value: stats?.reaction_count ?? 0, icon: Heart },
+    { label: 'Views', value: stats?.view_count ?? 0, icon: Eye }
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 overflow-x-hidden">
+      <div className="absolute inset-0 bg-subtle-grid bg-grid opacity-30 pointer-events-none"></div>
+
+      <div className="relative container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 max-w-6xl">
+        {/* Header */}
+        <div className="flex flex-col items-center text-center space-y-4 mb-8 sm:mb-12">
+          <div className="flex items-center gap-3">
+            {tool?.icon_url && (
+              <img src={tool.icon_url} alt="" className="h-10 w-10 rounded-lg" />
+            )}
+            <h1 className="font-['Playfair_Display'] text-3xl sm:text-[2.5rem] xl:text-[3rem] font-normal leading-[1.2] bg-gradient-to-br from-white via-[#f6d365] to-[#fda085] bg-clip-text text-transparent tracking-[0.01em]">
+              {toolName}
+            </h1>
+          </div>
+          {tool && (
+            <Badge variant="outline" className="border-[#f6d365]/30 text-[#f6d365] bg-[#f6d365]/10">
+              {toolCategoryLabels[tool.category]}
+            </Badge>
+          )}
+          <div className="w-8 lg:w-10 h-px bg-gradient-to-r from-[#f6d365] via-[#fda085] to-[#f6d365]"></div>
+          <p className="text-sm lg:text-base text-foreground/70 max-w-[650px] font-extralight leading-[1.8] tracking-[0.3px]">
+            {tool?.description || `Projects in the gallery built with ${toolName}.`}
+          </p>
+          {tool?.homepage && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.open(tool.homepage!, '_blank')}
+              className="border-white/20 hover:border-[#f6d365]/40 hover:text-[#fda085]"
+            >
+              <ExternalLink className="h-3.5 w-3.5 mr-2" />
+              Visit {toolName}
+            </Button>
+          )}
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 mb-8">
+          {statItems.map(({ label, value, icon: Icon }) => (
+            <Card key={label} className="bg-card/60 backdrop-blur-sm border-white/10">
+              <CardContent className="p-4 flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-gradient-to-br from-[#f6d365]/20 to-[#fda085]/20">
+                  <Icon className="h-4 w-4 text-[#fda085]" />
+                </div>
+                <div>
+                  <p className="text-xl font-semibold text-foreground">{value}</p>
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Projects */}
+          <div className="lg:col-span-2 space-y-4">
+            <h2 className="text-lg font-semibold text-foreground">Built with {toolName}</h2>
+            {projects.length === 0 ? (
+              <p className="text-foreground/60">No approved projects use {toolName} yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {projects.map((project) => (
+                  <ProjectTile key={project.id} project={project} />
+                ))}
+              </div>
+            )}
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="border-white/20 hover:border-[#f6d365]/40"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {/* Sidebar */}
+          <div className="space-y-6">
+            <Card className="bg-card/60 backdrop-blur-sm border-white/10">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Often paired with</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {pairings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Not used alongside other tools yet.</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {pairings.map((pairing) => (
+                      <Link key={pairing.tool} to={`/tools/${toolSlug(pairing.tool)}`}>
+                        <Badge
+                          variant="secondary"
+                          className="bg-gradient-to-r from-[#f6d365]/10 to-[#fda085]/10 hover:from-[#f6d365]/20 hover:to-[#fda085]/20 text-foreground/90 border border-[#f6d365]/20"
+                        >
+                          {pairing.tool}
+                          <span className="ml-1.5 text-muted-foreground">{pairing.project_count}</span>
+                        </Badge>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-card/60 backdrop-blur-sm border-white/10">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Top creators</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {topCreators.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No creators yet.</p>
+                ) : (
+                  topCreators.map((creator) => (
+                    <div key={creator.user_id} className="flex items-center gap-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={creator.avatar_url || undefined} alt={creator.creator_name} />
+                        <AvatarFallback className="bg-gradient-to-br from-[#f6d365] to-[#fda085] text-gray-900 text-xs">
+                          {creator.creator_name?.[0]?.toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        {creator.username ? (
+                          <Link to={`/u/${creator.username}`} className="block text-sm font-medium text-foreground truncate hover:text-[#fda085] transition-colors">
+                            {creator.creator_name}
+                          </Link>
+                        ) : (
+                          <p className="text-sm font-medium text-foreground truncate">{creator.creator_name}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {creator.project_count} {creator.project_count === 1 ? 'project' : 'projects'} · {creator.reaction_count} reactions
+                        </p>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
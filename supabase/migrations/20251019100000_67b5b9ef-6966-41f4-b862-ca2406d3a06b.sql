@@ -0,0 +1,117 @@
+-- Moderation roles and permissions for the pending/approved/rejected workflow
+
+-- Role enum and user_roles table (roles live outside profiles so users can't grant themselves access)
+CREATE TYPE public.app_role AS ENUM ('admin', 'moderator');
+
+CREATE TABLE public.user_roles (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Security definer helpers so RLS policies can check roles without recursing into user_roles policies
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = _role
+  );
+$function$;
+
+CREATE OR REPLACE FUNCTION public.is_moderator(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role IN ('admin', 'moderator')
+  );
+$function$;
+
+CREATE POLICY "Users can view their own roles"
+ON public.user_roles
+FOR SELECT
+USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can grant roles"
+ON public.user_roles
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can revoke roles"
+ON public.user_roles
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Track who reviewed a project and when
+ALTER TABLE public.projects
+ADD COLUMN reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN reviewed_at timestamp with time zone;
+
+-- Moderators need to see every project (including pending ones) to review them
+CREATE POLICY "Moderators can view all projects"
+ON public.projects
+FOR SELECT
+USING (public.is_moderator(auth.uid()));
+
+-- Moderators can update projects they don't own (the trigger below limits what they can change)
+CREATE POLICY "Moderators can review projects"
+ON public.projects
+FOR UPDATE
+USING (public.is_moderator(auth.uid()));
+
+-- New submissions always start in the review queue
+DROP POLICY IF EXISTS "Users can create their own projects" ON public.projects;
+
+CREATE POLICY "Users can create their own projects"
+ON public.projects
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+-- Only moderators may change status, and moderators may only change moderation fields on other people's projects
+CREATE OR REPLACE FUNCTION public.enforce_project_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _is_moderator boolean := public.is_moderator(auth.uid());
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT _is_moderator THEN
+    RAISE EXCEPTION 'Only moderators can change project status';
+  END IF;
+
+  IF NOT _is_moderator THEN
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM OLD.user_id
+     AND (to_jsonb(NEW) - 'status' - 'reviewed_by' - 'reviewed_at' - 'updated_at')
+         IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'reviewed_by' - 'reviewed_at' - 'updated_at') THEN
+    RAISE EXCEPTION 'Moderators can only change the status of projects they do not own';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_project_moderation
+BEFORE UPDATE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_project_moderation();
+
+CREATE INDEX idx_user_roles_user_id ON public.user_roles(user_id);
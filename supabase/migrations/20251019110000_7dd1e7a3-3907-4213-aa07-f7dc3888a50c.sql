@@ -0,0 +1,174 @@
+-- Moderator feedback, review history and the resubmission loop
+
+-- Latest feedback is kept on the project so cards can show it without a join
+ALTER TABLE public.projects
+ADD COLUMN review_feedback text;
+
+-- Every status change is recorded so creators and moderators can see previous rounds
+CREATE TABLE public.project_reviews (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  from_status text,
+  to_status text NOT NULL CHECK (to_status IN ('pending', 'approved', 'rejected')),
+  feedback text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below, so there are no insert/update policies
+CREATE POLICY "Owners and moderators can view review history"
+ON public.project_reviews
+FOR SELECT
+USING (
+  public.is_moderator(auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_reviews.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_project_reviews_project_id ON public.project_reviews(project_id, created_at DESC);
+
+-- Status changes now go through review_project/resubmit_project, which set a transaction-local
+-- flag so the guard trigger knows the change was already authorised
+CREATE OR REPLACE FUNCTION public.enforce_project_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  -- Service role / SQL editor and the review functions are trusted
+  IF auth.uid() IS NULL OR current_setting('app.moderation_bypass', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Project status can only be changed through review_project or resubmit_project';
+  END IF;
+
+  NEW.reviewed_by := OLD.reviewed_by;
+  NEW.reviewed_at := OLD.reviewed_at;
+  NEW.review_feedback := OLD.review_feedback;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Moderators review through the function below, so the direct update policy is no longer needed
+DROP POLICY IF EXISTS "Moderators can review projects" ON public.projects;
+
+CREATE OR REPLACE FUNCTION public.review_project(_project_id uuid, _status text, _feedback text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _current_status text;
+  _clean_feedback text := NULLIF(btrim(_feedback), '');
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can review projects';
+  END IF;
+
+  IF _status NOT IN ('pending', 'approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid status: %', _status;
+  END IF;
+
+  IF _status = 'rejected' AND _clean_feedback IS NULL THEN
+    RAISE EXCEPTION 'Feedback is required when rejecting a project';
+  END IF;
+
+  SELECT status INTO _current_status
+  FROM public.projects
+  WHERE id = _project_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  PERFORM set_config('app.moderation_bypass', 'on', true);
+
+  UPDATE public.projects
+  SET status = _status,
+      review_feedback = _clean_feedback,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _project_id;
+
+  PERFORM set_config('app.moderation_bypass', 'off', true);
+
+  INSERT INTO public.project_reviews (project_id, actor_id, from_status, to_status, feedback)
+  VALUES (_project_id, auth.uid(), _current_status, _status, _clean_feedback);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.resubmit_project(_project_id uuid, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _project public.projects%ROWTYPE;
+BEGIN
+  SELECT * INTO _project
+  FROM public.projects
+  WHERE id = _project_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _project.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF _project.status IS DISTINCT FROM 'rejected' THEN
+    RAISE EXCEPTION 'Only rejected projects can be resubmitted';
+  END IF;
+
+  PERFORM set_config('app.moderation_bypass', 'on', true);
+
+  UPDATE public.projects
+  SET status = 'pending'
+  WHERE id = _project_id;
+
+  PERFORM set_config('app.moderation_bypass', 'off', true);
+
+  INSERT INTO public.project_reviews (project_id, actor_id, from_status, to_status, feedback)
+  VALUES (_project_id, auth.uid(), 'rejected', 'pending', NULLIF(btrim(_note), ''));
+END;
+$function$;
+
+-- Seed the history with each project's current state so the first round is visible.
+-- Projects that were already reviewed get that decision rather than a pending submission.
+INSERT INTO public.project_reviews (project_id, actor_id, from_status, to_status, created_at)
+SELECT
+  id,
+  CASE WHEN COALESCE(status, 'pending') = 'pending' THEN user_id ELSE reviewed_by END,
+  NULL,
+  COALESCE(status, 'pending'),
+  CASE WHEN COALESCE(status, 'pending') = 'pending' THEN created_at ELSE COALESCE(reviewed_at, created_at) END
+FROM public.projects;
+
+-- New submissions open their first round automatically
+CREATE OR REPLACE FUNCTION public.log_project_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.project_reviews (project_id, actor_id, from_status, to_status)
+  VALUES (NEW.id, NEW.user_id, NULL, COALESCE(NEW.status, 'pending'));
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER log_project_submission
+AFTER INSERT ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.log_project_submission();
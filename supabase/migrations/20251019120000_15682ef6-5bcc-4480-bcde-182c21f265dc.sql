@@ -0,0 +1,296 @@
+-- Re-review substantial edits to approved projects
+-- The approved row in projects stays public while a proposed edit waits in project_edits,
+-- and review_rules decides which field changes need a moderator to look at them.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Rules per field:
+--   any_change  - any difference needs review
+--   additions   - only new array items need review (removing screenshots is fine)
+--   similarity  - text that falls below the trigram similarity threshold needs review
+CREATE TABLE public.review_rules (
+  field text NOT NULL PRIMARY KEY CHECK (field IN ('name', 'link', 'description', 'story', 'deeper_story', 'tools', 'screenshots')),
+  mode text NOT NULL CHECK (mode IN ('any_change', 'additions', 'similarity')),
+  threshold real CHECK (threshold IS NULL OR (threshold >= 0 AND threshold <= 1)),
+  enabled boolean NOT NULL DEFAULT true,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.review_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view review rules"
+ON public.review_rules
+FOR SELECT
+USING (public.is_moderator(auth.uid()));
+
+CREATE POLICY "Admins can manage review rules"
+ON public.review_rules
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_review_rules_updated_at
+BEFORE UPDATE ON public.review_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.review_rules (field, mode, threshold) VALUES
+  ('link', 'any_change', NULL),
+  ('screenshots', 'additions', NULL),
+  ('story', 'similarity', 0.6),
+  ('deeper_story', 'similarity', 0.5),
+  ('name', 'similarity', 0.5);
+
+-- Proposed edits waiting for (or having had) review
+CREATE TABLE public.project_edits (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  changes jsonb NOT NULL,
+  flagged_fields text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  feedback text,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_edits ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through save_project_edit/review_project_edit; owners may withdraw a pending edit
+CREATE POLICY "Owners and moderators can view project edits"
+ON public.project_edits
+FOR SELECT
+USING (auth.uid() = user_id OR public.is_moderator(auth.uid()));
+
+CREATE POLICY "Owners can withdraw pending edits"
+ON public.project_edits
+FOR DELETE
+USING (auth.uid() = user_id AND status = 'pending');
+
+CREATE TRIGGER update_project_edits_updated_at
+BEFORE UPDATE ON public.project_edits
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- At most one open edit per project; saving again replaces it
+CREATE UNIQUE INDEX idx_project_edits_one_pending ON public.project_edits(project_id) WHERE status = 'pending';
+CREATE INDEX idx_project_edits_status ON public.project_edits(status, created_at);
+
+-- Public content of an approved project can only change through the edit review flow
+CREATE OR REPLACE FUNCTION public.enforce_project_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  -- Service role / SQL editor and the review functions are trusted
+  IF auth.uid() IS NULL OR current_setting('app.moderation_bypass', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    RAISE EXCEPTION 'Project status can only be changed through review_project or resubmit_project';
+  END IF;
+
+  IF OLD.status = 'approved' AND (
+    NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.link IS DISTINCT FROM OLD.link
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.story IS DISTINCT FROM OLD.story
+    OR NEW.deeper_story IS DISTINCT FROM OLD.deeper_story
+    OR NEW.tools IS DISTINCT FROM OLD.tools
+    OR NEW.screenshots IS DISTINCT FROM OLD.screenshots
+  ) THEN
+    RAISE EXCEPTION 'Edits to approved projects must go through save_project_edit';
+  END IF;
+
+  NEW.reviewed_by := OLD.reviewed_by;
+  NEW.reviewed_at := OLD.reviewed_at;
+  NEW.review_feedback := OLD.review_feedback;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Returns the fields in _changes that the enabled review rules flag
+CREATE OR REPLACE FUNCTION public.flag_project_changes(_project public.projects, _changes jsonb)
+RETURNS text[]
+LANGUAGE plpgsql
+STABLE
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _rule public.review_rules%ROWTYPE;
+  _old jsonb := to_jsonb(_project);
+  _old_value jsonb;
+  _new_value jsonb;
+  _old_text text;
+  _new_text text;
+  _flagged text[] := '{}';
+BEGIN
+  FOR _rule IN SELECT * FROM public.review_rules WHERE enabled LOOP
+    CONTINUE WHEN NOT _changes ? _rule.field;
+
+    _old_value := COALESCE(_old -> _rule.field, 'null'::jsonb);
+    _new_value := COALESCE(_changes -> _rule.field, 'null'::jsonb);
+    CONTINUE WHEN _old_value = _new_value;
+
+    IF _rule.mode = 'additions' AND jsonb_typeof(_new_value) = 'array' THEN
+      IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(_new_value) AS added(value)
+        WHERE jsonb_typeof(_old_value) <> 'array' OR NOT _old_value @> jsonb_build_array(added.value)
+      ) THEN
+        _flagged := _flagged || _rule.field;
+      END IF;
+    ELSIF _rule.mode = 'similarity' THEN
+      _old_text := CASE WHEN jsonb_typeof(_old_value) = 'array'
+        THEN (SELECT string_agg(v, ' ') FROM jsonb_array_elements_text(_old_value) AS v)
+        ELSE _old_value #>> '{}' END;
+      _new_text := CASE WHEN jsonb_typeof(_new_value) = 'array'
+        THEN (SELECT string_agg(v, ' ') FROM jsonb_array_elements_text(_new_value) AS v)
+        ELSE _new_value #>> '{}' END;
+
+      IF extensions.similarity(COALESCE(_old_text, ''), COALESCE(_new_text, '')) < COALESCE(_rule.threshold, 1) THEN
+        _flagged := _flagged || _rule.field;
+      END IF;
+    ELSE
+      _flagged := _flagged || _rule.field;
+    END IF;
+  END LOOP;
+
+  RETURN _flagged;
+END;
+$function$;
+
+-- Writes proposed values onto the project row; only called from the functions below
+CREATE OR REPLACE FUNCTION public.apply_project_changes(_project_id uuid, _changes jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  PERFORM set_config('app.moderation_bypass', 'on', true);
+
+  UPDATE public.projects
+  SET name = COALESCE(_changes ->> 'name', name),
+      link = COALESCE(_changes ->> 'link', link),
+      description = COALESCE(_changes ->> 'description', description),
+      story = COALESCE(_changes ->> 'story', story),
+      deeper_story = CASE WHEN _changes ? 'deeper_story' THEN _changes ->> 'deeper_story' ELSE deeper_story END,
+      tools = CASE WHEN _changes ? 'tools'
+        THEN ARRAY(SELECT jsonb_array_elements_text(_changes -> 'tools')) ELSE tools END,
+      screenshots = CASE WHEN _changes ? 'screenshots'
+        THEN ARRAY(SELECT jsonb_array_elements_text(_changes -> 'screenshots')) ELSE screenshots END,
+      allows_contact = COALESCE((_changes ->> 'allows_contact')::boolean, allows_contact),
+      email = COALESCE(_changes ->> 'email', email),
+      creator_name = COALESCE(_changes ->> 'creator_name', creator_name),
+      updated_at = now()
+  WHERE id = _project_id;
+
+  PERFORM set_config('app.moderation_bypass', 'off', true);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_project_changes(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Saves an owner's edit. Returns 'saved' (project not public yet), 'published' (nothing flagged)
+-- or 'pending_review' (content held in project_edits until a moderator approves it). Settings
+-- such as contact details are never reviewed, so they're applied right away either way.
+CREATE OR REPLACE FUNCTION public.save_project_edit(_project_id uuid, _changes jsonb)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _project public.projects%ROWTYPE;
+  _flagged text[];
+  _settings jsonb;
+BEGIN
+  SELECT * INTO _project
+  FROM public.projects
+  WHERE id = _project_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _project.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF jsonb_typeof(_changes) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Changes must be a JSON object';
+  END IF;
+
+  IF _project.status IS DISTINCT FROM 'approved' THEN
+    PERFORM public.apply_project_changes(_project_id, _changes);
+    RETURN 'saved';
+  END IF;
+
+  _flagged := public.flag_project_changes(_project, _changes);
+
+  IF cardinality(_flagged) = 0 THEN
+    PERFORM public.apply_project_changes(_project_id, _changes);
+    -- The owner reverted whatever was waiting for review
+    DELETE FROM public.project_edits WHERE project_id = _project_id AND status = 'pending';
+    RETURN 'published';
+  END IF;
+
+  _settings := _changes - ARRAY['name', 'link', 'description', 'story', 'deeper_story', 'tools', 'screenshots'];
+
+  IF _settings <> '{}'::jsonb THEN
+    PERFORM public.apply_project_changes(_project_id, _settings);
+  END IF;
+
+  INSERT INTO public.project_edits (project_id, user_id, changes, flagged_fields)
+  VALUES (_project_id, auth.uid(), _changes - ARRAY(SELECT jsonb_object_keys(_settings)), _flagged)
+  ON CONFLICT (project_id) WHERE status = 'pending'
+  DO UPDATE SET changes = EXCLUDED.changes,
+                flagged_fields = EXCLUDED.flagged_fields,
+                created_at = now();
+
+  RETURN 'pending_review';
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.review_project_edit(_edit_id uuid, _approve boolean, _feedback text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _edit public.project_edits%ROWTYPE;
+  _clean_feedback text := NULLIF(btrim(_feedback), '');
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can review edits';
+  END IF;
+
+  SELECT * INTO _edit
+  FROM public.project_edits
+  WHERE id = _edit_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _edit.status <> 'pending' THEN
+    RAISE EXCEPTION 'Edit not found or already reviewed';
+  END IF;
+
+  IF NOT _approve AND _clean_feedback IS NULL THEN
+    RAISE EXCEPTION 'Feedback is required when rejecting an edit';
+  END IF;
+
+  IF _approve THEN
+    PERFORM public.apply_project_changes(_edit.project_id, _edit.changes);
+  END IF;
+
+  UPDATE public.project_edits
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      feedback = _clean_feedback,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _edit_id;
+END;
+$function$;
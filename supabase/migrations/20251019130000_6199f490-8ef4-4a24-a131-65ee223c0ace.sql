@@ -0,0 +1,81 @@
+-- Revision history for project content
+
+CREATE TABLE public.project_revisions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (project_id, revision_number)
+);
+
+ALTER TABLE public.project_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are only written by the trigger below
+CREATE POLICY "Owners and moderators can view project revisions"
+ON public.project_revisions
+FOR SELECT
+USING (
+  public.is_moderator(auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_revisions.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+-- Content fields captured in each revision (the same fields save_project_edit accepts for review)
+CREATE OR REPLACE FUNCTION public.project_content_snapshot(_project public.projects)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT jsonb_build_object(
+    'name', _project.name,
+    'link', _project.link,
+    'description', _project.description,
+    'story', _project.story,
+    'deeper_story', _project.deeper_story,
+    'tools', to_jsonb(_project.tools),
+    'screenshots', to_jsonb(COALESCE(_project.screenshots, '{}'::text[]))
+  );
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_project_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _snapshot jsonb := public.project_content_snapshot(NEW);
+  _next_number integer;
+BEGIN
+  -- Status, contact and review changes don't create a revision
+  IF TG_OP = 'UPDATE' AND _snapshot = public.project_content_snapshot(OLD) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1 INTO _next_number
+  FROM public.project_revisions
+  WHERE project_id = NEW.id;
+
+  INSERT INTO public.project_revisions (project_id, revision_number, snapshot, changed_by)
+  VALUES (NEW.id, _next_number, _snapshot, COALESCE(auth.uid(), NEW.user_id));
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER record_project_revision
+AFTER INSERT OR UPDATE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.record_project_revision();
+
+-- Existing projects start with their current content as revision 1
+INSERT INTO public.project_revisions (project_id, revision_number, snapshot, changed_by, created_at)
+SELECT p.id, 1, public.project_content_snapshot(p), p.user_id, p.updated_at
+FROM public.projects p;
+
+CREATE INDEX idx_project_revisions_project_id ON public.project_revisions(project_id, revision_number DESC);
@@ -0,0 +1,52 @@
+-- Server-side, cursor-paginated gallery
+
+-- Keyset pagination walks approved projects newest first
+CREATE INDEX IF NOT EXISTS idx_projects_approved_created_at
+ON public.projects(created_at DESC, id DESC)
+WHERE status = 'approved';
+
+CREATE INDEX IF NOT EXISTS idx_projects_tools ON public.projects USING gin(tools);
+
+-- One page of the gallery. Pass the created_at/id of the last project on the previous page
+-- as the cursor; both NULL returns the first page.
+CREATE OR REPLACE FUNCTION public.get_gallery_projects(
+  _search text DEFAULT NULL,
+  _tool text DEFAULT NULL,
+  _cursor_created_at timestamp with time zone DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _limit integer DEFAULT 12
+)
+RETURNS SETOF public.projects_public
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  WITH params AS (
+    -- Escape LIKE wildcards so the search matches literally
+    SELECT '%' || replace(replace(replace(btrim(_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  )
+  SELECT p.*
+  FROM public.projects_public p, params
+  WHERE (
+      NULLIF(btrim(_search), '') IS NULL
+      OR p.name ILIKE params.pattern
+      OR p.description ILIKE params.pattern
+      OR EXISTS (SELECT 1 FROM unnest(p.tools) AS tool WHERE tool ILIKE params.pattern)
+    )
+    AND (_tool IS NULL OR _tool = ANY(p.tools))
+    AND (_cursor_created_at IS NULL OR (p.created_at, p.id) < (_cursor_created_at, _cursor_id))
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 12), 1), 50);
+$function$;
+
+-- Tool names for the gallery filter, without loading every project
+CREATE OR REPLACE FUNCTION public.get_gallery_tools()
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT DISTINCT tool
+  FROM public.projects_public p, unnest(p.tools) AS tool
+  ORDER BY tool;
+$function$;
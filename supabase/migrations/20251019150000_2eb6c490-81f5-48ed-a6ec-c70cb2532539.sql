@@ -0,0 +1,152 @@
+-- Full-text search over project content with ranked, highlighted results
+
+ALTER TABLE public.projects
+ADD COLUMN search_vector tsvector;
+
+-- Name weighs most, then tools and description, then the story text and creator
+CREATE OR REPLACE FUNCTION public.update_project_search_vector()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tools, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.story, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.creator_name, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.deeper_story, '')), 'D');
+  RETURN NEW;
+END;
+$function$;
+
+-- Fires on every write, not just content columns, so search_vector can't be set directly
+CREATE TRIGGER update_project_search_vector
+BEFORE INSERT OR UPDATE ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.update_project_search_vector();
+
+-- Backfill existing rows through the trigger
+UPDATE public.projects SET name = name;
+
+CREATE INDEX idx_projects_search_vector ON public.projects USING gin(search_vector);
+
+-- The project's tools that a query word of three or more letters spells closely enough
+CREATE OR REPLACE FUNCTION public.search_matched_tools(_words text[], _tools text[])
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT ARRAY(
+    SELECT tool FROM unnest(_tools) AS tool
+    WHERE EXISTS (
+      SELECT 1 FROM unnest(_words) AS w(word)
+      WHERE length(w.word) >= 3
+        AND extensions.similarity(w.word, lower(tool)) >= 0.4
+    )
+  );
+$function$;
+
+-- Every word has to match, either as a prefix in the indexed text or as a close spelling of
+-- one of the project's tools, so a typo'd tool name narrows the results like any other word.
+-- Stop words match nothing in the index and are skipped.
+CREATE OR REPLACE FUNCTION public.project_matches_search(_words text[], _search_vector tsvector, _tools text[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM unnest(_words) AS w(word)
+    WHERE numnode(to_tsquery('english', w.word || ':*')) > 0
+      AND NOT COALESCE(_search_vector @@ to_tsquery('english', w.word || ':*'), false)
+      AND cardinality(public.search_matched_tools(ARRAY[w.word], _tools)) = 0
+  );
+$function$;
+
+-- Ranked search. Each word is matched as a prefix so partial words work while typing,
+-- and tool names are matched by trigram similarity so "Cursr" still finds Cursor.
+-- Highlights are wrapped in ⟦ ⟧ for the client to render.
+CREATE OR REPLACE FUNCTION public.search_projects(
+  _query text,
+  _tool text DEFAULT NULL,
+  _offset integer DEFAULT 0,
+  _limit integer DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  description text,
+  story text,
+  deeper_story text,
+  link text,
+  tools text[],
+  creator_name text,
+  screenshots text[],
+  allows_contact boolean,
+  created_at timestamp with time zone,
+  rank real,
+  name_highlight text,
+  snippet text,
+  matched_tools text[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  WITH words AS (
+    SELECT m[1] AS word
+    FROM regexp_matches(lower(COALESCE(_query, '')), '[[:alnum:]]+', 'g') AS m
+  ),
+  query AS (
+    -- Any matched word counts towards rank and highlighting; project_matches_search
+    -- decides whether the project matches at all
+    SELECT
+      array_agg(word) AS words,
+      to_tsquery('english', string_agg(word || ':*', ' | ')) AS tsq
+    FROM words
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      ts_rank_cd(p.search_vector, query.tsq)::real AS rank,
+      public.search_matched_tools(query.words, p.tools) AS matched_tools,
+      query.tsq
+    FROM public.projects p, query
+    WHERE p.status = 'approved'
+      AND numnode(query.tsq) > 0
+      AND public.project_matches_search(query.words, p.search_vector, p.tools)
+      AND (_tool IS NULL OR _tool = ANY(p.tools))
+    ORDER BY rank DESC, p.created_at DESC, p.id DESC
+    OFFSET GREATEST(COALESCE(_offset, 0), 0)
+    LIMIT LEAST(GREATEST(COALESCE(_limit, 12), 1), 50)
+  )
+  -- Headlines are only built for the returned page
+  SELECT
+    m.id,
+    m.user_id,
+    m.name,
+    m.description,
+    m.story,
+    m.deeper_story,
+    m.link,
+    m.tools,
+    m.creator_name,
+    m.screenshots,
+    m.allows_contact,
+    m.created_at,
+    m.rank,
+    ts_headline('english', m.name, m.tsq, 'StartSel=⟦, StopSel=⟧, HighlightAll=true'),
+    ts_headline(
+      'english',
+      concat_ws(E'\n', m.story, m.description, m.deeper_story),
+      m.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.matched_tools
+  FROM matches m
+  ORDER BY m.rank DESC, m.created_at DESC, m.id DESC;
+$function$;
@@ -0,0 +1,149 @@
+-- Gallery sort modes: newest, most loved, most reactions, most viewed and trending
+
+CREATE INDEX IF NOT EXISTS idx_project_reactions_project_id ON public.project_reactions(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_reactions_created_at ON public.project_reactions(created_at);
+CREATE INDEX IF NOT EXISTS idx_project_views_viewed_at ON public.project_views(viewed_at);
+
+-- Engagement totals for approved projects. Views are only readable by project owners,
+-- so this runs as definer and exposes counts only.
+-- Trending sums reactions (3 points) and views (1 point) from the last 14 days,
+-- each halving in weight every 48 hours.
+CREATE OR REPLACE FUNCTION public.get_project_engagement(_as_of timestamp with time zone DEFAULT NULL)
+RETURNS TABLE (
+  project_id uuid,
+  heart_count bigint,
+  reaction_count bigint,
+  view_count bigint,
+  trending_score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  WITH params AS (
+    SELECT COALESCE(_as_of, now()) AS as_of
+  ),
+  reactions AS (
+    SELECT
+      r.project_id,
+      count(*) FILTER (WHERE r.reaction_type = 'heart') AS heart_count,
+      count(*) AS reaction_count,
+      COALESCE(sum(3 * power(0.5, extract(epoch FROM params.as_of - r.created_at) / 172800.0))
+        FILTER (WHERE r.created_at > params.as_of - interval '14 days' AND r.created_at <= params.as_of), 0) AS trending
+    FROM public.project_reactions r, params
+    GROUP BY r.project_id
+  ),
+  views AS (
+    SELECT
+      v.project_id,
+      count(*) AS view_count,
+      COALESCE(sum(power(0.5, extract(epoch FROM params.as_of - v.viewed_at) / 172800.0))
+        FILTER (WHERE v.viewed_at > params.as_of - interval '14 days' AND v.viewed_at <= params.as_of), 0) AS trending
+    FROM public.project_views v, params
+    GROUP BY v.project_id
+  )
+  SELECT
+    p.id,
+    COALESCE(reactions.heart_count, 0),
+    COALESCE(reactions.reaction_count, 0),
+    COALESCE(views.view_count, 0),
+    (COALESCE(reactions.trending, 0) + COALESCE(views.trending, 0))::double precision
+  FROM public.projects p
+  LEFT JOIN reactions ON reactions.project_id = p.id
+  LEFT JOIN views ON views.project_id = p.id
+  WHERE p.status = 'approved';
+$function$;
+
+-- The gallery now returns the sort score with each project so the client can pass it
+-- back as part of the cursor
+DROP FUNCTION IF EXISTS public.get_gallery_projects(text, text, timestamp with time zone, uuid, integer);
+
+-- One page of the gallery in the chosen order. Pass the sort_score/created_at/id of the last
+-- project on the previous page as the cursor, and the as_of time of the first page so
+-- trending scores don't shift between pages.
+CREATE OR REPLACE FUNCTION public.get_gallery_projects(
+  _search text DEFAULT NULL,
+  _tool text DEFAULT NULL,
+  _sort text DEFAULT 'newest',
+  _cursor_score double precision DEFAULT NULL,
+  _cursor_created_at timestamp with time zone DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _as_of timestamp with time zone DEFAULT NULL,
+  _limit integer DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  description text,
+  story text,
+  deeper_story text,
+  link text,
+  tools text[],
+  creator_name text,
+  screenshots text[],
+  allows_contact boolean,
+  status text,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  sort_score double precision
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF _sort NOT IN ('newest', 'loved', 'reactions', 'views', 'trending') THEN
+    RAISE EXCEPTION 'Unknown sort: %', _sort;
+  END IF;
+
+  RETURN QUERY
+  WITH params AS (
+    -- Escape LIKE wildcards so the search matches literally
+    SELECT '%' || replace(replace(replace(btrim(_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ),
+  scored AS (
+    SELECT
+      p.*,
+      CASE _sort
+        WHEN 'loved' THEN e.heart_count::double precision
+        WHEN 'reactions' THEN e.reaction_count::double precision
+        WHEN 'views' THEN e.view_count::double precision
+        WHEN 'trending' THEN e.trending_score
+        ELSE 0::double precision
+      END AS score
+    FROM public.projects_public p
+    CROSS JOIN params
+    LEFT JOIN public.get_project_engagement(_as_of) e ON e.project_id = p.id
+    WHERE (
+        NULLIF(btrim(_search), '') IS NULL
+        OR p.name ILIKE params.pattern
+        OR p.description ILIKE params.pattern
+        OR EXISTS (SELECT 1 FROM unnest(p.tools) AS tool WHERE tool ILIKE params.pattern)
+      )
+      AND (_tool IS NULL OR _tool = ANY(p.tools))
+  )
+  SELECT
+    s.id,
+    s.user_id,
+    s.name,
+    s.description,
+    s.story,
+    s.deeper_story,
+    s.link,
+    s.tools,
+    s.creator_name,
+    s.screenshots,
+    s.allows_contact,
+    s.status,
+    s.created_at,
+    s.updated_at,
+    COALESCE(s.score, 0)
+  FROM scored s
+  WHERE _cursor_created_at IS NULL
+    OR (COALESCE(s.score, 0), s.created_at, s.id) < (COALESCE(_cursor_score, 0), _cursor_created_at, _cursor_id)
+  ORDER BY COALESCE(s.score, 0) DESC, s.created_at DESC, s.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 12), 1), 50);
+END;
+$function$;
@@ -0,0 +1,177 @@
+-- Canonical registry of AI tools, so "GPT-4", "gpt4" and "ChatGPT" are one tool
+
+CREATE TYPE public.tool_category AS ENUM ('llm', 'ide', 'no_code', 'image_model', 'other');
+
+CREATE TABLE public.tools (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name text NOT NULL UNIQUE,
+  aliases text[] NOT NULL DEFAULT '{}',
+  category public.tool_category NOT NULL DEFAULT 'other',
+  icon_url text,
+  homepage text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tools ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tools"
+ON public.tools
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Moderators can add tools"
+ON public.tools
+FOR INSERT
+WITH CHECK (public.is_moderator(auth.uid()));
+
+CREATE POLICY "Moderators can update tools"
+ON public.tools
+FOR UPDATE
+USING (public.is_moderator(auth.uid()));
+
+CREATE POLICY "Moderators can delete tools"
+ON public.tools
+FOR DELETE
+USING (public.is_moderator(auth.uid()));
+
+CREATE TRIGGER update_tools_updated_at
+BEFORE UPDATE ON public.tools
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Names and aliases are compared on lowercase letters and digits only
+CREATE OR REPLACE FUNCTION public.tool_key(_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT regexp_replace(lower(COALESCE(_name, '')), '[^a-z0-9]+', '', 'g');
+$function$;
+
+CREATE UNIQUE INDEX idx_tools_name_key ON public.tools(public.tool_key(name));
+
+-- Every name and alias key, each owned by exactly one tool, so a string always resolves to
+-- the same tool. Kept in step with tools by the trigger below.
+CREATE TABLE public.tool_aliases (
+  alias_key text NOT NULL PRIMARY KEY,
+  tool_id uuid NOT NULL REFERENCES public.tools(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.tool_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tool aliases"
+ON public.tool_aliases
+FOR SELECT
+USING (true);
+
+CREATE INDEX idx_tool_aliases_tool_id ON public.tool_aliases(tool_id);
+
+CREATE OR REPLACE FUNCTION public.sync_tool_aliases()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  DELETE FROM public.tool_aliases WHERE tool_id = NEW.id;
+
+  INSERT INTO public.tool_aliases (alias_key, tool_id)
+  SELECT DISTINCT public.tool_key(alias), NEW.id
+  FROM unnest(array_append(NEW.aliases, NEW.name)) AS alias
+  WHERE public.tool_key(alias) <> '';
+
+  RETURN NULL;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'An alias of % already belongs to another tool', NEW.name;
+END;
+$function$;
+
+CREATE TRIGGER sync_tool_aliases
+AFTER INSERT OR UPDATE OF name, aliases ON public.tools
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_tool_aliases();
+
+INSERT INTO public.tools (slug, name, aliases, category, homepage) VALUES
+  ('claude', 'Claude', '{"Claude AI", "Anthropic Claude", "Claude 3", "Claude 3.5", "Claude Sonnet", "Claude Opus"}', 'llm', 'https://claude.ai'),
+  ('chatgpt', 'ChatGPT', '{"GPT-4", "GPT4", "GPT-4o", "GPT-3.5", "GPT", "OpenAI", "Chat GPT"}', 'llm', 'https://chatgpt.com'),
+  ('gemini', 'Gemini', '{"Google Gemini", "Bard", "Gemini Pro"}', 'llm', 'https://gemini.google.com'),
+  ('cursor', 'Cursor', '{"Cursor AI", "Cursor IDE"}', 'ide', 'https://cursor.com'),
+  ('github-copilot', 'GitHub Copilot', '{"Copilot", "GH Copilot"}', 'ide', 'https://github.com/features/copilot'),
+  ('windsurf', 'Windsurf', '{"Codeium", "Codeium Windsurf"}', 'ide', 'https://windsurf.com'),
+  ('replit', 'Replit', '{"Replit Agent", "Repl.it"}', 'ide', 'https://replit.com'),
+  ('lovable', 'Lovable', '{"Lovable.dev", "GPT Engineer"}', 'no_code', 'https://lovable.dev'),
+  ('bolt', 'Bolt', '{"Bolt.new", "StackBlitz Bolt"}', 'no_code', 'https://bolt.new'),
+  ('v0', 'v0', '{"v0.dev", "Vercel v0"}', 'no_code', 'https://v0.dev'),
+  ('bubble', 'Bubble', '{"Bubble.io"}', 'no_code', 'https://bubble.io'),
+  ('midjourney', 'Midjourney', '{"MJ", "Mid Journey"}', 'image_model', 'https://www.midjourney.com'),
+  ('dall-e', 'DALL·E', '{"DALL-E", "DALLE", "DALL-E 3"}', 'image_model', 'https://openai.com/dall-e-3'),
+  ('stable-diffusion', 'Stable Diffusion', '{"SD", "SDXL", "Stable Diffusion XL"}', 'image_model', 'https://stability.ai');
+
+-- Canonical name for a tool string, or the trimmed string itself when it isn't registered
+CREATE OR REPLACE FUNCTION public.resolve_tool_name(_name text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT COALESCE(
+    (
+      SELECT t.name
+      FROM public.tool_aliases a
+      JOIN public.tools t ON t.id = a.tool_id
+      WHERE a.alias_key = public.tool_key(_name)
+    ),
+    btrim(_name)
+  );
+$function$;
+
+-- Resolves every entry, dropping blanks and duplicates while keeping the original order
+CREATE OR REPLACE FUNCTION public.canonicalize_tools(_tools text[])
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT COALESCE(array_agg(resolved.name ORDER BY resolved.position), '{}')
+  FROM (
+    SELECT public.resolve_tool_name(raw.tool) AS name, min(raw.position) AS position
+    FROM unnest(_tools) WITH ORDINALITY AS raw(tool, position)
+    WHERE NULLIF(btrim(raw.tool), '') IS NOT NULL
+    GROUP BY public.resolve_tool_name(raw.tool)
+  ) resolved;
+$function$;
+
+-- Runs before enforce_project_moderation (triggers fire in name order), so the guard
+-- compares canonical tool lists
+CREATE OR REPLACE FUNCTION public.canonicalize_project_tools()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  NEW.tools := public.canonicalize_tools(NEW.tools);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER canonicalize_project_tools
+BEFORE INSERT OR UPDATE OF tools ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.canonicalize_project_tools();
+
+-- Normalize existing projects and any edits still waiting for review
+UPDATE public.projects
+SET tools = public.canonicalize_tools(tools)
+WHERE tools IS DISTINCT FROM public.canonicalize_tools(tools);
+
+UPDATE public.project_edits
+SET changes = jsonb_set(
+  changes,
+  '{tools}',
+  to_jsonb(public.canonicalize_tools(ARRAY(SELECT jsonb_array_elements_text(changes->'tools'))))
+)
+WHERE status = 'pending'
+  AND jsonb_typeof(changes->'tools') = 'array';
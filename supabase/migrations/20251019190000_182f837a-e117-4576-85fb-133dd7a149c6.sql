@@ -0,0 +1,100 @@
+-- Tool landing pages: descriptions, URL slugs derived from names, and per-tool aggregates
+
+-- Slugs follow the tool name so a badge can link to /tools/<slug> from the name alone,
+-- including tools that aren't registered yet
+CREATE OR REPLACE FUNCTION public.tool_slug(_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT btrim(regexp_replace(lower(COALESCE(_name, '')), '[^a-z0-9]+', '-', 'g'), '-');
+$function$;
+
+ALTER TABLE public.tools
+ADD CONSTRAINT tools_slug_matches_name CHECK (slug = public.tool_slug(name));
+
+ALTER TABLE public.tools
+ADD COLUMN description text;
+
+UPDATE public.tools SET description = CASE slug
+  WHEN 'claude' THEN 'Anthropic''s assistant, used for writing code, planning features and talking through ideas.'
+  WHEN 'chatgpt' THEN 'OpenAI''s chat assistant and GPT models, a common starting point for prototypes and copy.'
+  WHEN 'gemini' THEN 'Google''s family of multimodal models, available in chat and through the Gemini API.'
+  WHEN 'cursor' THEN 'An AI-first code editor built on VS Code with chat, multi-file edits and an agent mode.'
+  WHEN 'github-copilot' THEN 'Inline code completion and chat inside the editors developers already use.'
+  WHEN 'windsurf' THEN 'An agentic IDE from the Codeium team that plans and applies changes across a codebase.'
+  WHEN 'replit' THEN 'A browser IDE with hosting built in, plus an agent that can build and deploy apps.'
+  WHEN 'lovable' THEN 'Describe an app in plain language and get a working React + Supabase project.'
+  WHEN 'bolt' THEN 'StackBlitz''s in-browser builder that prompts, runs and deploys full-stack apps.'
+  WHEN 'v0' THEN 'Vercel''s generator for React and Tailwind UI, from components to whole pages.'
+  WHEN 'bubble' THEN 'A visual no-code platform for building web apps with databases and workflows.'
+  WHEN 'midjourney' THEN 'An image model known for its striking style, popular for artwork and visual assets.'
+  WHEN 'dall-e' THEN 'OpenAI''s image model for illustrations, mockups and product imagery.'
+  WHEN 'stable-diffusion' THEN 'Open image models that can be run locally or fine-tuned for a specific style.'
+END;
+
+-- Combined engagement for every approved project built with a tool
+CREATE OR REPLACE FUNCTION public.get_tool_stats(_tool text)
+RETURNS TABLE (
+  project_count bigint,
+  creator_count bigint,
+  reaction_count bigint,
+  view_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT
+    count(*),
+    count(DISTINCT p.user_id),
+    COALESCE(sum(e.reaction_count), 0)::bigint,
+    COALESCE(sum(e.view_count), 0)::bigint
+  FROM public.projects_public p
+  LEFT JOIN public.get_project_engagement() e ON e.project_id = p.id
+  WHERE _tool = ANY(p.tools);
+$function$;
+
+-- Tools that appear on the same projects, most frequent first
+CREATE OR REPLACE FUNCTION public.get_tool_pairings(_tool text, _limit integer DEFAULT 8)
+RETURNS TABLE (
+  tool text,
+  project_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT other.tool, count(*)
+  FROM public.projects_public p, unnest(p.tools) AS other(tool)
+  WHERE _tool = ANY(p.tools)
+    AND other.tool <> _tool
+  GROUP BY other.tool
+  ORDER BY count(*) DESC, other.tool
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 8), 1), 50);
+$function$;
+
+-- Creators with the most approved projects using a tool, ties broken by reactions received
+CREATE OR REPLACE FUNCTION public.get_tool_top_creators(_tool text, _limit integer DEFAULT 5)
+RETURNS TABLE (
+  user_id uuid,
+  creator_name text,
+  project_count bigint,
+  reaction_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT
+    p.user_id,
+    (array_agg(p.creator_name ORDER BY p.created_at DESC))[1],
+    count(*),
+    COALESCE(sum(e.reaction_count), 0)::bigint
+  FROM public.projects_public p
+  LEFT JOIN public.get_project_engagement() e ON e.project_id = p.id
+  WHERE _tool = ANY(p.tools)
+  GROUP BY p.user_id
+  ORDER BY count(*) DESC, COALESCE(sum(e.reaction_count), 0) DESC
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 5), 1), 50);
+$function$;
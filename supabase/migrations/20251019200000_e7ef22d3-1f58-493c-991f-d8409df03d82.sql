@@ -0,0 +1,141 @@
+-- Unique, URL-safe usernames for public creator pages at /u/:username
+
+-- Lowercase letters, digits, "-" and "_", 3 to 30 characters, starting and ending with a letter or digit
+CREATE OR REPLACE FUNCTION public.username_base(_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT rpad(
+    COALESCE(
+      NULLIF(btrim(left(btrim(regexp_replace(lower(COALESCE(_value, '')), '[^a-z0-9_-]+', '-', 'g'), '-_'), 30), '-_'), ''),
+      'user'
+    ),
+    3,
+    '0'
+  );
+$function$;
+
+-- Appends -2, -3, ... until the name is free for this user. Another signup can take the
+-- same name before the caller saves it, so callers retry on profiles_username_key.
+CREATE OR REPLACE FUNCTION public.generate_username(_value text, _user_id uuid DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _base text := public.username_base(_value);
+  _candidate text := _base;
+  _suffix integer := 1;
+BEGIN
+  WHILE EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE username = _candidate
+      AND (_user_id IS NULL OR user_id <> _user_id)
+  ) LOOP
+    _suffix := _suffix + 1;
+    _candidate := btrim(left(_base, 29 - length(_suffix::text)), '-_') || '-' || _suffix;
+  END LOOP;
+
+  RETURN _candidate;
+END;
+$function$;
+
+-- Existing usernames are converted one profile at a time, oldest first, so earlier
+-- accounts keep the plain name when two collapse to the same one
+CREATE TEMPORARY TABLE username_sources ON COMMIT DROP AS
+SELECT
+  p.user_id,
+  COALESCE(NULLIF(btrim(p.username), ''), split_part(u.email, '@', 1)) AS source,
+  row_number() OVER (ORDER BY p.created_at, p.id) AS position
+FROM public.profiles p
+LEFT JOIN auth.users u ON u.id = p.user_id;
+
+-- Placeholders can't collide with generated names, which never contain "~"
+UPDATE public.profiles SET username = '~' || user_id::text;
+
+DO $$
+DECLARE
+  _profile record;
+BEGIN
+  FOR _profile IN SELECT * FROM username_sources ORDER BY position LOOP
+    UPDATE public.profiles
+    SET username = public.generate_username(_profile.source, _profile.user_id)
+    WHERE user_id = _profile.user_id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.profiles
+ALTER COLUMN username SET NOT NULL;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_username_format CHECK (username ~ '^[a-z0-9][a-z0-9_-]{1,28}[a-z0-9]$');
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_username_key UNIQUE (username);
+
+-- New accounts get a free username derived from the one they signed up with. If a
+-- concurrent signup claims the same name first, the next attempt sees it and moves on
+-- to the next suffix.
+CREATE OR REPLACE FUNCTION public.create_user_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _source text := COALESCE(NEW.raw_user_meta_data->>'username', split_part(NEW.email, '@', 1));
+  _attempt integer := 0;
+  _constraint text;
+BEGIN
+  LOOP
+    BEGIN
+      -- Create profile with basic info from auth user
+      INSERT INTO public.profiles (
+        user_id,
+        username,
+        created_at,
+        updated_at
+      )
+      VALUES (
+        NEW.id,
+        public.generate_username(_source, NEW.id),
+        NOW(),
+        NOW()
+      );
+
+      RETURN NEW;
+    EXCEPTION
+      WHEN unique_violation THEN
+        GET STACKED DIAGNOSTICS _constraint = CONSTRAINT_NAME;
+        _attempt := _attempt + 1;
+        IF _constraint IS DISTINCT FROM 'profiles_username_key' OR _attempt >= 5 THEN
+          RAISE;
+        END IF;
+    END;
+  END LOOP;
+END;
+$function$;
+
+-- Approved-project totals for a creator page
+CREATE OR REPLACE FUNCTION public.get_creator_stats(_user_id uuid)
+RETURNS TABLE (
+  project_count bigint,
+  reaction_count bigint,
+  view_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT
+    count(*),
+    COALESCE(sum(e.reaction_count), 0)::bigint,
+    COALESCE(sum(e.view_count), 0)::bigint
+  FROM public.projects_public p
+  LEFT JOIN public.get_project_engagement() e ON e.project_id = p.id
+  WHERE p.user_id = _user_id;
+$function$;
@@ -0,0 +1,231 @@
+-- Follow creators, with a gallery feed of projects from the people you follow
+
+CREATE TABLE public.follows (
+  follower_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  following_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX idx_follows_following_id ON public.follows(following_id);
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+-- Follower lists are public, like the counts shown on profiles
+CREATE POLICY "Anyone can view follows"
+ON public.follows
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can follow creators"
+ON public.follows
+FOR INSERT
+WITH CHECK (auth.uid() = follower_id);
+
+CREATE POLICY "Users can unfollow creators"
+ON public.follows
+FOR DELETE
+USING (auth.uid() = follower_id);
+
+CREATE OR REPLACE FUNCTION public.is_following(_follower_id uuid, _following_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE follower_id = _follower_id AND following_id = _following_id
+  );
+$function$;
+
+-- The gallery and search gain a "following only" switch, which uses the signed-in user
+
+DROP FUNCTION IF EXISTS public.get_gallery_projects(text, text[], text, date, date, boolean, text, double precision, timestamp with time zone, uuid, timestamp with time zone, integer);
+
+CREATE OR REPLACE FUNCTION public.get_gallery_projects(
+  _search text DEFAULT NULL,
+  _tools text[] DEFAULT NULL,
+  _tool_mode text DEFAULT 'any',
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _has_screenshots boolean DEFAULT false,
+  _following_only boolean DEFAULT false,
+  _sort text DEFAULT 'newest',
+  _cursor_score double precision DEFAULT NULL,
+  _cursor_created_at timestamp with time zone DEFAULT NULL,
+  _cursor_id uuid DEFAULT NULL,
+  _as_of timestamp with time zone DEFAULT NULL,
+  _limit integer DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  description text,
+  story text,
+  deeper_story text,
+  link text,
+  tools text[],
+  creator_name text,
+  screenshots text[],
+  allows_contact boolean,
+  status text,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  sort_score double precision
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF _sort NOT IN ('newest', 'loved', 'reactions', 'views', 'trending') THEN
+    RAISE EXCEPTION 'Unknown sort: %', _sort;
+  END IF;
+
+  IF _tool_mode NOT IN ('any', 'all') THEN
+    RAISE EXCEPTION 'Unknown tool mode: %', _tool_mode;
+  END IF;
+
+  RETURN QUERY
+  WITH params AS (
+    -- Escape LIKE wildcards so the search matches literally
+    SELECT '%' || replace(replace(replace(btrim(_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ),
+  scored AS (
+    SELECT
+      p.*,
+      CASE _sort
+        WHEN 'loved' THEN e.heart_count::double precision
+        WHEN 'reactions' THEN e.reaction_count::double precision
+        WHEN 'views' THEN e.view_count::double precision
+        WHEN 'trending' THEN e.trending_score
+        ELSE 0::double precision
+      END AS score
+    FROM public.projects_public p
+    CROSS JOIN params
+    LEFT JOIN public.get_project_engagement(_as_of) e ON e.project_id = p.id
+    WHERE (
+        NULLIF(btrim(_search), '') IS NULL
+        OR p.name ILIKE params.pattern
+        OR p.description ILIKE params.pattern
+        OR EXISTS (SELECT 1 FROM unnest(p.tools) AS tool WHERE tool ILIKE params.pattern)
+      )
+      AND public.gallery_filter_matches(p.tools, p.screenshots, p.created_at, _tools, _tool_mode, _from, _to, _has_screenshots)
+      AND (NOT COALESCE(_following_only, false) OR public.is_following(auth.uid(), p.user_id))
+  )
+  SELECT
+    s.id,
+    s.user_id,
+    s.name,
+    s.description,
+    s.story,
+    s.deeper_story,
+    s.link,
+    s.tools,
+    s.creator_name,
+    s.screenshots,
+    s.allows_contact,
+    s.status,
+    s.created_at,
+    s.updated_at,
+    COALESCE(s.score, 0)
+  FROM scored s
+  WHERE _cursor_created_at IS NULL
+    OR (COALESCE(s.score, 0), s.created_at, s.id) < (COALESCE(_cursor_score, 0), _cursor_created_at, _cursor_id)
+  ORDER BY COALESCE(s.score, 0) DESC, s.created_at DESC, s.id DESC
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 12), 1), 50);
+END;
+$function$;
+
+DROP FUNCTION IF EXISTS public.search_projects(text, text[], text, date, date, boolean, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.search_projects(
+  _query text,
+  _tools text[] DEFAULT NULL,
+  _tool_mode text DEFAULT 'any',
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _has_screenshots boolean DEFAULT false,
+  _following_only boolean DEFAULT false,
+  _offset integer DEFAULT 0,
+  _limit integer DEFAULT 12
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  name text,
+  description text,
+  story text,
+  deeper_story text,
+  link text,
+  tools text[],
+  creator_name text,
+  screenshots text[],
+  allows_contact boolean,
+  created_at timestamp with time zone,
+  rank real,
+  name_highlight text,
+  snippet text,
+  matched_tools text[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  WITH words AS (
+    SELECT m[1] AS word
+    FROM regexp_matches(lower(COALESCE(_query, '')), '[[:alnum:]]+', 'g') AS m
+  ),
+  query AS (
+    -- Any matched word counts towards rank and highlighting; project_matches_search
+    -- decides whether the project matches at all
+    SELECT
+      array_agg(word) AS words,
+      to_tsquery('english', string_agg(word || ':*', ' | ')) AS tsq
+    FROM words
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      ts_rank_cd(p.search_vector, query.tsq)::real AS rank,
+      public.search_matched_tools(query.words, p.tools) AS matched_tools,
+      query.tsq
+    FROM public.projects p, query
+    WHERE p.status = 'approved'
+      AND numnode(query.tsq) > 0
+      AND public.project_matches_search(query.words, p.search_vector, p.tools)
+      AND public.gallery_filter_matches(p.tools, p.screenshots, p.created_at, _tools, _tool_mode, _from, _to, _has_screenshots)
+      AND (NOT COALESCE(_following_only, false) OR public.is_following(auth.uid(), p.user_id))
+    ORDER BY rank DESC, p.created_at DESC, p.id DESC
+    OFFSET GREATEST(COALESCE(_offset, 0), 0)
+    LIMIT LEAST(GREATEST(COALESCE(_limit, 12), 1), 50)
+  )
+  -- Headlines are only built for the returned page
+  SELECT
+    m.id,
+    m.user_id,
+    m.name,
+    m.description,
+    m.story,
+    m.deeper_story,
+    m.link,
+    m.tools,
+    m.creator_name,
+    m.screenshots,
+    m.allows_contact,
+    m.created_at,
+    m.rank,
+    ts_headline('english', m.name, m.tsq, 'StartSel=⟦, StopSel=⟧, HighlightAll=true'),
+    ts_headline(
+      'english',
+      concat_ws(E'\n', m.story, m.description, m.deeper_story),
+      m.tsq,
+      'StartSel=⟦, StopSel=⟧, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ),
+    m.matched_tools
+  FROM matches m
+  ORDER BY m.rank DESC, m.created_at DESC, m.id DESC;
+$function$;
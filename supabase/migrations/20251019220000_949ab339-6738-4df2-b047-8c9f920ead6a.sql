@@ -0,0 +1,206 @@
+-- Public threaded comments under project stories
+
+-- Creators can close comments on a project; existing comments stay visible
+ALTER TABLE public.projects
+ADD COLUMN allows_comments boolean NOT NULL DEFAULT true;
+
+CREATE OR REPLACE VIEW public.projects_public
+WITH (security_invoker = true) AS
+SELECT
+    id,
+    user_id,
+    name,
+    description,
+    story,
+    deeper_story,
+    link,
+    tools,
+    creator_name,
+    screenshots,
+    status,
+    allows_contact,
+    created_at,
+    updated_at,
+    allows_comments
+    -- Note: email column is intentionally excluded to protect creator privacy
+FROM public.projects
+WHERE status = 'approved';
+
+-- The comment setting is saved through save_project_edit along with the rest of the form.
+-- It isn't a review_rules field, so changing it never holds an edit for review.
+CREATE OR REPLACE FUNCTION public.apply_project_changes(_project_id uuid, _changes jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  PERFORM set_config('app.moderation_bypass', 'on', true);
+
+  UPDATE public.projects
+  SET name = COALESCE(_changes ->> 'name', name),
+      link = COALESCE(_changes ->> 'link', link),
+      description = COALESCE(_changes ->> 'description', description),
+      story = COALESCE(_changes ->> 'story', story),
+      deeper_story = CASE WHEN _changes ? 'deeper_story' THEN _changes ->> 'deeper_story' ELSE deeper_story END,
+      tools = CASE WHEN _changes ? 'tools'
+        THEN ARRAY(SELECT jsonb_array_elements_text(_changes -> 'tools')) ELSE tools END,
+      screenshots = CASE WHEN _changes ? 'screenshots'
+        THEN ARRAY(SELECT jsonb_array_elements_text(_changes -> 'screenshots')) ELSE screenshots END,
+      allows_contact = COALESCE((_changes ->> 'allows_contact')::boolean, allows_contact),
+      allows_comments = COALESCE((_changes ->> 'allows_comments')::boolean, allows_comments),
+      email = COALESCE(_changes ->> 'email', email),
+      creator_name = COALESCE(_changes ->> 'creator_name', creator_name),
+      updated_at = now()
+  WHERE id = _project_id;
+
+  PERFORM set_config('app.moderation_bypass', 'off', true);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_project_changes(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Replies point at their parent. A deleted comment that still has replies keeps its row
+-- (with the body cleared) so the thread below it stays in place.
+CREATE TABLE public.project_comments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES public.project_comments(id) ON DELETE CASCADE,
+  body text NOT NULL,
+  edited_at timestamp with time zone,
+  deleted_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT project_comments_body_length CHECK (
+    deleted_at IS NOT NULL OR char_length(btrim(body)) BETWEEN 1 AND 2000
+  )
+);
+
+ALTER TABLE public.project_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view comments on approved projects"
+ON public.project_comments
+FOR SELECT
+USING (
+  public.is_moderator(auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_comments.project_id
+    AND (projects.status = 'approved' OR projects.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can comment on open projects"
+ON public.project_comments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND deleted_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_comments.project_id
+    AND projects.status = 'approved'
+    AND projects.allows_comments
+  )
+  AND (
+    parent_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.project_comments parent
+      WHERE parent.id = project_comments.parent_id
+      AND parent.project_id = project_comments.project_id
+      AND parent.deleted_at IS NULL
+    )
+  )
+);
+
+-- Deletes go through delete_project_comment so project owners can remove comments too
+CREATE POLICY "Authors can edit their comments"
+ON public.project_comments
+FOR UPDATE
+USING (auth.uid() = user_id AND deleted_at IS NULL);
+
+-- Authors may only change the body; edits are stamped so readers can tell
+CREATE OR REPLACE FUNCTION public.enforce_comment_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.comment_bypass', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.project_id := OLD.project_id;
+  NEW.user_id := OLD.user_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+  NEW.deleted_at := OLD.deleted_at;
+  NEW.edited_at := CASE WHEN NEW.body IS DISTINCT FROM OLD.body THEN now() ELSE OLD.edited_at END;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_comment_update
+BEFORE UPDATE ON public.project_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_comment_update();
+
+CREATE TRIGGER update_project_comments_updated_at
+BEFORE UPDATE ON public.project_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Authors, the project owner and moderators can delete. Comments with replies are blanked
+-- rather than removed so the replies keep their place in the thread.
+CREATE OR REPLACE FUNCTION public.delete_project_comment(_comment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _comment public.project_comments%ROWTYPE;
+  _project_owner uuid;
+BEGIN
+  SELECT * INTO _comment
+  FROM public.project_comments
+  WHERE id = _comment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  SELECT user_id INTO _project_owner
+  FROM public.projects
+  WHERE id = _comment.project_id;
+
+  IF auth.uid() IS DISTINCT FROM _comment.user_id
+     AND auth.uid() IS DISTINCT FROM _project_owner
+     AND NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'You can only delete your own comments or comments on your projects';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.project_comments WHERE parent_id = _comment_id) THEN
+    PERFORM set_config('app.comment_bypass', 'on', true);
+
+    UPDATE public.project_comments
+    SET body = '',
+        deleted_at = now()
+    WHERE id = _comment_id;
+
+    PERFORM set_config('app.comment_bypass', 'off', true);
+  ELSE
+    DELETE FROM public.project_comments WHERE id = _comment_id;
+  END IF;
+END;
+$function$;
+
+CREATE INDEX idx_project_comments_project_id ON public.project_comments(project_id, created_at);
+CREATE INDEX idx_project_comments_parent_id ON public.project_comments(parent_id);
+
+-- Realtime updates for open project pages
+ALTER TABLE public.project_comments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.project_comments;
@@ -0,0 +1,169 @@
+-- Collections: named, user-curated lists of projects
+
+CREATE TABLE public.collections (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  description text CHECK (description IS NULL OR char_length(description) <= 500),
+  is_public boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public collections are visible to everyone"
+ON public.collections
+FOR SELECT
+USING (is_public OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+ON public.collections
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections"
+ON public.collections
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+ON public.collections
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_collections_updated_at
+BEFORE UPDATE ON public.collections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_collections_user_id ON public.collections(user_id, created_at DESC);
+
+-- Each project appears at most once per collection, ordered by position
+CREATE TABLE public.collection_items (
+  collection_id uuid NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  note text CHECK (note IS NULL OR char_length(note) <= 280),
+  added_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (collection_id, project_id)
+);
+
+ALTER TABLE public.collection_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Items are visible with their collection"
+ON public.collection_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE collections.id = collection_items.collection_id
+    AND (collections.is_public OR collections.user_id = auth.uid())
+  )
+);
+
+-- Only approved projects can be collected, so public collections don't reveal others
+CREATE POLICY "Owners can add items to their collections"
+ON public.collection_items
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE collections.id = collection_items.collection_id
+    AND collections.user_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = collection_items.project_id
+    AND projects.status = 'approved'
+  )
+);
+
+CREATE POLICY "Owners can update items in their collections"
+ON public.collection_items
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE collections.id = collection_items.collection_id
+    AND collections.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE collections.id = collection_items.collection_id
+    AND collections.user_id = auth.uid()
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = collection_items.project_id
+    AND projects.status = 'approved'
+  )
+);
+
+CREATE POLICY "Owners can remove items from their collections"
+ON public.collection_items
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE collections.id = collection_items.collection_id
+    AND collections.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_collection_items_position ON public.collection_items(collection_id, position);
+CREATE INDEX idx_collection_items_project_id ON public.collection_items(project_id);
+
+-- New items go to the end of the list
+CREATE OR REPLACE FUNCTION public.append_collection_item()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  SELECT COALESCE(MAX(position), 0) + 1 INTO NEW.position
+  FROM public.collection_items
+  WHERE collection_id = NEW.collection_id;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER append_collection_item
+BEFORE INSERT ON public.collection_items
+FOR EACH ROW
+EXECUTE FUNCTION public.append_collection_item();
+
+-- Saves a new order in one call. Projects missing from _project_ids keep their relative
+-- order after the ones that were listed.
+CREATE OR REPLACE FUNCTION public.reorder_collection_items(_collection_id uuid, _project_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.collections
+    WHERE id = _collection_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Collection not found';
+  END IF;
+
+  UPDATE public.collection_items ci
+  SET position = ordered.new_position
+  FROM (
+    SELECT
+      i.project_id,
+      row_number() OVER (
+        ORDER BY array_position(_project_ids, i.project_id) NULLS LAST, i.position, i.added_at
+      ) AS new_position
+    FROM public.collection_items i
+    WHERE i.collection_id = _collection_id
+  ) ordered
+  WHERE ci.collection_id = _collection_id
+    AND ci.project_id = ordered.project_id;
+END;
+$function$;
@@ -0,0 +1,66 @@
+-- Reaction types live in a table so new reactions can be added without a code change
+
+CREATE TABLE public.reaction_types (
+  key text NOT NULL PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label text NOT NULL,
+  emoji text NOT NULL,
+  -- Optional lucide icon name; the emoji is shown when the app has no icon for it
+  icon text,
+  sort_order integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.reaction_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reaction types"
+ON public.reaction_types
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage reaction types"
+ON public.reaction_types
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_reaction_types_updated_at
+BEFORE UPDATE ON public.reaction_types
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The original three, plus two that admins can switch on when they're wanted
+INSERT INTO public.reaction_types (key, label, emoji, icon, sort_order, active) VALUES
+  ('heart', 'Love it', '❤️', 'heart', 10, true),
+  ('rocket', 'Ship it', '🚀', 'rocket', 20, true),
+  ('lightbulb', 'Inspiring', '💡', 'lightbulb', 30, true),
+  ('learned', 'Learned something', '📚', 'graduation-cap', 40, false),
+  ('collaborate', 'Want to collaborate', '🤝', 'handshake', 50, false);
+
+-- The hard-coded CHECK becomes a foreign key; renaming a key carries existing reactions along
+ALTER TABLE public.project_reactions
+DROP CONSTRAINT IF EXISTS project_reactions_reaction_type_check;
+
+ALTER TABLE public.project_reactions
+ADD CONSTRAINT project_reactions_reaction_type_fkey
+FOREIGN KEY (reaction_type) REFERENCES public.reaction_types(key) ON UPDATE CASCADE;
+
+-- Retired reactions keep their counts but can't be given any more
+DROP POLICY IF EXISTS "Authenticated users can create reactions" ON public.project_reactions;
+
+CREATE POLICY "Authenticated users can create reactions"
+ON public.project_reactions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.reaction_types
+    WHERE reaction_types.key = project_reactions.reaction_type
+    AND reaction_types.active
+  )
+);
+
+-- Reactions are only ever given or taken back; switching one in place could land on a
+-- retired type
+DROP POLICY IF EXISTS "Users can update their own reactions" ON public.project_reactions;
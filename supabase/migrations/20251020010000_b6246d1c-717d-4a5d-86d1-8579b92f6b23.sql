@@ -0,0 +1,233 @@
+-- Reaction and view counters kept up to date by triggers, so pages read one row per
+-- project instead of counting project_reactions/project_views
+
+CREATE TABLE public.project_stats (
+  project_id uuid NOT NULL PRIMARY KEY REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Reaction key -> count, for whatever keys reaction_types defines
+  reaction_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  reaction_count bigint NOT NULL DEFAULT 0,
+  view_count bigint NOT NULL DEFAULT 0,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_stats ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the triggers below
+CREATE POLICY "Stats are visible with their project"
+ON public.project_stats
+FOR SELECT
+USING (
+  public.is_moderator(auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_stats.project_id
+    AND (projects.status = 'approved' OR projects.user_id = auth.uid())
+  )
+);
+
+-- Increments upsert, since the project must exist for the reaction or view to be saved.
+-- Decrements only update: when a project is deleted its stats row is already gone.
+CREATE OR REPLACE FUNCTION public.bump_project_reaction_count(_project_id uuid, _reaction_type text, _delta integer)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF _delta > 0 THEN
+    INSERT INTO public.project_stats AS s (project_id, reaction_counts, reaction_count)
+    VALUES (_project_id, jsonb_build_object(_reaction_type, _delta), _delta)
+    ON CONFLICT (project_id) DO UPDATE
+    SET reaction_counts = jsonb_set(
+          s.reaction_counts,
+          ARRAY[_reaction_type],
+          to_jsonb(COALESCE((s.reaction_counts ->> _reaction_type)::bigint, 0) + _delta)
+        ),
+        reaction_count = s.reaction_count + _delta,
+        updated_at = now();
+  ELSE
+    UPDATE public.project_stats s
+    SET reaction_counts = jsonb_set(
+          s.reaction_counts,
+          ARRAY[_reaction_type],
+          to_jsonb(GREATEST(COALESCE((s.reaction_counts ->> _reaction_type)::bigint, 0) + _delta, 0))
+        ),
+        reaction_count = GREATEST(s.reaction_count + _delta, 0),
+        updated_at = now()
+    WHERE s.project_id = _project_id;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.bump_project_reaction_count(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.track_project_reaction_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.bump_project_reaction_count(OLD.project_id, OLD.reaction_type, -1);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.bump_project_reaction_count(NEW.project_id, NEW.reaction_type, 1);
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- Renaming a reaction_types key cascades here as an UPDATE and moves the counts along
+CREATE TRIGGER track_project_reaction_stats
+AFTER INSERT OR DELETE OR UPDATE OF project_id, reaction_type ON public.project_reactions
+FOR EACH ROW
+EXECUTE FUNCTION public.track_project_reaction_stats();
+
+CREATE OR REPLACE FUNCTION public.track_project_view_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.project_stats AS s (project_id, view_count)
+    VALUES (NEW.project_id, 1)
+    ON CONFLICT (project_id) DO UPDATE
+    SET view_count = s.view_count + 1,
+        updated_at = now();
+  ELSE
+    UPDATE public.project_stats s
+    SET view_count = GREATEST(s.view_count - 1, 0),
+        updated_at = now()
+    WHERE s.project_id = OLD.project_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER track_project_view_stats
+AFTER INSERT OR DELETE ON public.project_views
+FOR EACH ROW
+EXECUTE FUNCTION public.track_project_view_stats();
+
+-- Every project gets a stats row when it's created
+CREATE OR REPLACE FUNCTION public.create_project_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.project_stats (project_id)
+  VALUES (NEW.id)
+  ON CONFLICT (project_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER create_project_stats
+AFTER INSERT ON public.projects
+FOR EACH ROW
+EXECUTE FUNCTION public.create_project_stats();
+
+-- Backfill from the existing rows
+INSERT INTO public.project_stats (project_id, reaction_counts, reaction_count, view_count)
+SELECT
+  p.id,
+  COALESCE(reactions.counts, '{}'::jsonb),
+  COALESCE(reactions.total, 0),
+  COALESCE(views.total, 0)
+FROM public.projects p
+LEFT JOIN (
+  SELECT project_id, jsonb_object_agg(reaction_type, type_count) AS counts, sum(type_count)::bigint AS total
+  FROM (
+    SELECT project_id, reaction_type, count(*) AS type_count
+    FROM public.project_reactions
+    GROUP BY project_id, reaction_type
+  ) per_type
+  GROUP BY project_id
+) reactions ON reactions.project_id = p.id
+LEFT JOIN (
+  SELECT project_id, count(*) AS total
+  FROM public.project_views
+  GROUP BY project_id
+) views ON views.project_id = p.id;
+
+-- Counters are part of the public project row
+CREATE OR REPLACE VIEW public.projects_public
+WITH (security_invoker = true) AS
+SELECT
+    p.id,
+    p.user_id,
+    p.name,
+    p.description,
+    p.story,
+    p.deeper_story,
+    p.link,
+    p.tools,
+    p.creator_name,
+    p.screenshots,
+    p.status,
+    p.allows_contact,
+    p.created_at,
+    p.updated_at,
+    p.allows_comments,
+    COALESCE(s.reaction_counts, '{}'::jsonb) AS reaction_counts,
+    COALESCE(s.reaction_count, 0) AS reaction_count,
+    COALESCE(s.view_count, 0) AS view_count
+    -- Note: email column is intentionally excluded to protect creator privacy
+FROM public.projects p
+LEFT JOIN public.project_stats s ON s.project_id = p.id
+WHERE p.status = 'approved';
+
+-- All-time totals come from the counters; only the 14-day trending window still reads rows
+CREATE OR REPLACE FUNCTION public.get_project_engagement(_as_of timestamp with time zone DEFAULT NULL)
+RETURNS TABLE (
+  project_id uuid,
+  heart_count bigint,
+  reaction_count bigint,
+  view_count bigint,
+  trending_score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  WITH params AS (
+    SELECT COALESCE(_as_of, now()) AS as_of
+  ),
+  reactions AS (
+    SELECT
+      r.project_id,
+      sum(3 * power(0.5, extract(epoch FROM params.as_of - r.created_at) / 172800.0)) AS trending
+    FROM public.project_reactions r, params
+    WHERE r.created_at > params.as_of - interval '14 days' AND r.created_at <= params.as_of
+    GROUP BY r.project_id
+  ),
+  views AS (
+    SELECT
+      v.project_id,
+      sum(power(0.5, extract(epoch FROM params.as_of - v.viewed_at) / 172800.0)) AS trending
+    FROM public.project_views v, params
+    WHERE v.viewed_at > params.as_of - interval '14 days' AND v.viewed_at <= params.as_of
+    GROUP BY v.project_id
+  )
+  SELECT
+    p.id,
+    COALESCE((s.reaction_counts ->> 'heart')::bigint, 0),
+    COALESCE(s.reaction_count, 0),
+    COALESCE(s.view_count, 0),
+    (COALESCE(reactions.trending, 0) + COALESCE(views.trending, 0))::double precision
+  FROM public.projects p
+  LEFT JOIN public.project_stats s ON s.project_id = p.id
+  LEFT JOIN reactions ON reactions.project_id = p.id
+  LEFT JOIN views ON views.project_id = p.id
+  WHERE p.status = 'approved';
+$function$;
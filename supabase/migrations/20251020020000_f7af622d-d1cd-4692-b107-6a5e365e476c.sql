@@ -0,0 +1,3 @@
+-- Broadcast counter changes so open gallery and project pages can update live.
+-- Clients only need the new row, so the default replica identity is enough.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.project_stats;
@@ -0,0 +1,157 @@
+-- View sessions: a view is only counted once per viewer per project every 30 minutes,
+-- crawlers are ignored, and counted views are rolled up per day
+
+ALTER TABLE public.project_views
+ADD COLUMN session_id text;
+
+CREATE INDEX idx_project_views_viewer_recent ON public.project_views(project_id, viewer_id, viewed_at DESC);
+CREATE INDEX idx_project_views_session_recent ON public.project_views(project_id, session_id, viewed_at DESC);
+
+-- Views are only recorded through record_project_view
+DROP POLICY IF EXISTS "Anyone can create view records" ON public.project_views;
+DROP POLICY IF EXISTS "Anyone can insert project views" ON public.project_views;
+REVOKE INSERT, UPDATE, DELETE ON public.project_views FROM anon, authenticated;
+
+CREATE TABLE public.project_view_daily (
+  project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  day date NOT NULL,
+  view_count bigint NOT NULL DEFAULT 0,
+  signed_in_view_count bigint NOT NULL DEFAULT 0,
+  PRIMARY KEY (project_id, day)
+);
+
+ALTER TABLE public.project_view_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Creators can see daily views of their projects"
+ON public.project_view_daily
+FOR SELECT
+USING (
+  public.is_moderator(auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_view_daily.project_id
+    AND projects.user_id = auth.uid()
+  )
+);
+
+-- Counted views feed both the all-time counter and the daily rollup. Raw rows can be
+-- pruned later without touching either, so deletes no longer decrement anything.
+CREATE OR REPLACE FUNCTION public.track_project_view_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.project_stats AS s (project_id, view_count)
+  VALUES (NEW.project_id, 1)
+  ON CONFLICT (project_id) DO UPDATE
+  SET view_count = s.view_count + 1,
+      updated_at = now();
+
+  INSERT INTO public.project_view_daily AS d (project_id, day, view_count, signed_in_view_count)
+  VALUES (NEW.project_id, (NEW.viewed_at AT TIME ZONE 'UTC')::date, 1, CASE WHEN NEW.viewer_id IS NULL THEN 0 ELSE 1 END)
+  ON CONFLICT (project_id, day) DO UPDATE
+  SET view_count = d.view_count + 1,
+      signed_in_view_count = d.signed_in_view_count + EXCLUDED.signed_in_view_count;
+
+  RETURN NULL;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS track_project_view_stats ON public.project_views;
+
+CREATE TRIGGER track_project_view_stats
+AFTER INSERT ON public.project_views
+FOR EACH ROW
+EXECUTE FUNCTION public.track_project_view_stats();
+
+-- Backfill the rollup from the rows recorded so far
+INSERT INTO public.project_view_daily (project_id, day, view_count, signed_in_view_count)
+SELECT
+  v.project_id,
+  (v.viewed_at AT TIME ZONE 'UTC')::date,
+  count(*),
+  count(v.viewer_id)
+FROM public.project_views v
+JOIN public.projects p ON p.id = v.project_id
+GROUP BY v.project_id, (v.viewed_at AT TIME ZONE 'UTC')::date
+ON CONFLICT (project_id, day) DO NOTHING;
+
+-- Records a view unless it comes from a crawler or the same viewer already counted one
+-- recently. Signed-in viewers are keyed by their account, everyone else by the session id
+-- the browser keeps. The user agent is read from the request headers rather than taken
+-- from the caller. Returns whether the view was counted.
+CREATE OR REPLACE FUNCTION public.record_project_view(_project_id uuid, _session_id text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _viewer_id uuid := auth.uid();
+  _user_agent text := NULLIF(current_setting('request.headers', true), '')::json ->> 'user-agent';
+BEGIN
+  IF _user_agent IS NULL
+    OR btrim(_user_agent) = ''
+    OR _user_agent ~* '(bot|crawl|spider|slurp|scrape|preview|headless|lighthouse|pagespeed|facebookexternalhit|embedly|curl|wget|python-requests|httpclient|go-http-client)'
+  THEN
+    RETURN false;
+  END IF;
+
+  IF _viewer_id IS NULL AND (_session_id IS NULL OR char_length(_session_id) NOT BETWEEN 8 AND 64) THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE id = _project_id
+    AND (status = 'approved' OR user_id = _viewer_id)
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- Serialize concurrent calls for the same viewer, e.g. React StrictMode double effects
+  PERFORM pg_advisory_xact_lock(hashtext(_project_id::text || ':' || COALESCE(_viewer_id::text, _session_id)));
+
+  IF EXISTS (
+    SELECT 1 FROM public.project_views
+    WHERE project_id = _project_id
+    AND viewed_at > now() - interval '30 minutes'
+    AND (
+      (_viewer_id IS NOT NULL AND viewer_id = _viewer_id)
+      OR (_session_id IS NOT NULL AND session_id = _session_id)
+    )
+  ) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.project_views (project_id, viewer_id, session_id)
+  VALUES (_project_id, _viewer_id, _session_id);
+
+  RETURN true;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.record_project_view(uuid, text) TO anon, authenticated;
+
+-- Raw rows are only needed for de-duplication and the trending window; the daily rollup
+-- and project_stats keep the history. Meant to be run on a schedule with the service role.
+CREATE OR REPLACE FUNCTION public.prune_project_views(_keep interval DEFAULT interval '30 days')
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _deleted bigint;
+BEGIN
+  DELETE FROM public.project_views
+  WHERE viewed_at < now() - _keep;
+
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+  RETURN _deleted;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.prune_project_views(interval) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,100 @@
+-- Per-project analytics for creators. Both functions are limited to the project owner
+-- (and moderators), since they read rows creators can't otherwise see.
+
+CREATE OR REPLACE FUNCTION public.can_view_project_analytics(_project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT public.is_moderator(auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.projects
+      WHERE id = _project_id AND user_id = auth.uid()
+    );
+$function$;
+
+-- One row per UTC day in the range, including days without any activity
+CREATE OR REPLACE FUNCTION public.get_project_daily_activity(_project_id uuid, _days integer DEFAULT 30)
+RETURNS TABLE (
+  day date,
+  view_count bigint,
+  signed_in_view_count bigint,
+  reaction_count bigint,
+  conversation_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _first_day date := (now() AT TIME ZONE 'UTC')::date - (LEAST(GREATEST(_days, 1), 365) - 1);
+BEGIN
+  IF NOT public.can_view_project_analytics(_project_id) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT generate_series(_first_day, (now() AT TIME ZONE 'UTC')::date, interval '1 day')::date AS day
+  ),
+  reactions AS (
+    SELECT (r.created_at AT TIME ZONE 'UTC')::date AS day, count(*) AS total
+    FROM public.project_reactions r
+    WHERE r.project_id = _project_id
+    AND r.created_at >= _first_day
+    GROUP BY 1
+  ),
+  conversations AS (
+    SELECT (c.created_at AT TIME ZONE 'UTC')::date AS day, count(*) AS total
+    FROM public.conversations c
+    WHERE c.project_id = _project_id
+    AND c.created_at >= _first_day
+    GROUP BY 1
+  )
+  SELECT
+    d.day,
+    COALESCE(v.view_count, 0),
+    COALESCE(v.signed_in_view_count, 0),
+    COALESCE(reactions.total, 0),
+    COALESCE(conversations.total, 0)
+  FROM days d
+  LEFT JOIN public.project_view_daily v ON v.project_id = _project_id AND v.day = d.day
+  LEFT JOIN reactions ON reactions.day = d.day
+  LEFT JOIN conversations ON conversations.day = d.day
+  ORDER BY d.day;
+END;
+$function$;
+
+-- Distinct viewers over the raw view rows, which prune_project_views keeps for 30 days.
+-- Signed-in viewers are counted by account, anonymous ones by session.
+CREATE OR REPLACE FUNCTION public.get_project_audience(_project_id uuid)
+RETURNS TABLE (
+  unique_viewers bigint,
+  repeat_viewers bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NOT public.can_view_project_analytics(_project_id) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE viewer.views > 1)
+  FROM (
+    SELECT count(*) AS views
+    FROM public.project_views v
+    WHERE v.project_id = _project_id
+    AND v.viewed_at > now() - interval '30 days'
+    GROUP BY COALESCE(v.viewer_id::text, v.session_id, v.id::text)
+  ) viewer;
+END;
+$function$;
@@ -0,0 +1,99 @@
+-- One conversation per pair of users per project, created on the server so clients no
+-- longer have to find and merge duplicates themselves
+
+-- Fold any remaining duplicates into the most recently active conversation of each pair
+CREATE TEMP TABLE conversation_duplicates ON COMMIT DROP AS
+SELECT id, primary_id
+FROM (
+  SELECT
+    id,
+    first_value(id) OVER (
+      PARTITION BY project_id, LEAST(creator_id, sender_id), GREATEST(creator_id, sender_id)
+      ORDER BY updated_at DESC, created_at DESC
+    ) AS primary_id
+  FROM public.conversations
+) ranked
+WHERE id <> primary_id;
+
+UPDATE public.messages m
+SET conversation_id = d.primary_id
+FROM conversation_duplicates d
+WHERE m.conversation_id = d.id;
+
+DELETE FROM public.conversations c
+USING conversation_duplicates d
+WHERE c.id = d.id;
+
+CREATE UNIQUE INDEX conversations_project_pair_key
+ON public.conversations (project_id, LEAST(creator_id, sender_id), GREATEST(creator_id, sender_id));
+
+-- Returns the conversation between the caller and _other_user_id about a project,
+-- creating it if needed. The project's creator is always stored as creator_id.
+CREATE OR REPLACE FUNCTION public.get_or_create_conversation(_project_id uuid, _other_user_id uuid)
+RETURNS public.conversations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _user_id uuid := auth.uid();
+  _project public.projects;
+  _conversation public.conversations;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _other_user_id IS NULL OR _other_user_id = _user_id THEN
+    RAISE EXCEPTION 'You cannot message yourself';
+  END IF;
+
+  SELECT * INTO _conversation
+  FROM public.conversations
+  WHERE project_id = _project_id
+  AND LEAST(creator_id, sender_id) = LEAST(_user_id, _other_user_id)
+  AND GREATEST(creator_id, sender_id) = GREATEST(_user_id, _other_user_id);
+
+  IF FOUND THEN
+    RETURN _conversation;
+  END IF;
+
+  SELECT * INTO _project FROM public.projects WHERE id = _project_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF _project.user_id NOT IN (_user_id, _other_user_id) THEN
+    RAISE EXCEPTION 'Conversations must include the project creator';
+  END IF;
+
+  IF _project.user_id <> _user_id AND NOT _project.allows_contact THEN
+    RAISE EXCEPTION 'This creator is not accepting messages';
+  END IF;
+
+  -- A concurrent call may have created it in the meantime
+  INSERT INTO public.conversations (project_id, creator_id, sender_id)
+  VALUES (
+    _project_id,
+    _project.user_id,
+    CASE WHEN _project.user_id = _user_id THEN _other_user_id ELSE _user_id END
+  )
+  ON CONFLICT DO NOTHING;
+
+  SELECT * INTO _conversation
+  FROM public.conversations
+  WHERE project_id = _project_id
+  AND LEAST(creator_id, sender_id) = LEAST(_user_id, _other_user_id)
+  AND GREATEST(creator_id, sender_id) = GREATEST(_user_id, _other_user_id);
+
+  RETURN _conversation;
+END;
+$function$;
+
+-- Conversations are only created through get_or_create_conversation
+DROP POLICY IF EXISTS "Authenticated users can create conversations" ON public.conversations;
+
+-- Nothing about a conversation is edited from the client, and an open update policy would
+-- let a participant repoint their row at another project and creator
+DROP POLICY IF EXISTS "Users can update their own conversations" ON public.conversations;
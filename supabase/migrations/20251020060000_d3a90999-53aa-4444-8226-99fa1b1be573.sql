@@ -0,0 +1,3 @@
+-- Message history is read newest first, one page at a time
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+ON public.messages (conversation_id, created_at DESC, id DESC);
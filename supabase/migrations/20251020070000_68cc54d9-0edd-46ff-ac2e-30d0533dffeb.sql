@@ -0,0 +1,120 @@
+-- Read receipts with timestamps, and when each participant last had a conversation open
+
+ALTER TABLE public.messages
+ADD COLUMN read_at timestamp with time zone;
+
+UPDATE public.messages
+SET read_at = updated_at
+WHERE is_read AND read_at IS NULL;
+
+-- is_read stays for unread badges; keep the two in step
+CREATE OR REPLACE FUNCTION public.sync_message_read_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NEW.is_read AND NEW.read_at IS NULL THEN
+    NEW.read_at := now();
+  ELSIF NOT NEW.is_read THEN
+    NEW.read_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_message_read_at
+BEFORE INSERT OR UPDATE OF is_read, read_at ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_message_read_at();
+
+ALTER TABLE public.conversations
+ADD COLUMN creator_last_seen_at timestamp with time zone,
+ADD COLUMN sender_last_seen_at timestamp with time zone;
+
+-- Conversation lists are ordered by updated_at, which shouldn't move when someone opens a thread
+DROP TRIGGER IF EXISTS update_conversations_updated_at ON public.conversations;
+
+CREATE TRIGGER update_conversations_updated_at
+BEFORE UPDATE OF project_id, creator_id, sender_id ON public.conversations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Messages are no longer edited from the client. The old policy let either participant
+-- update any message, including marking their own as seen.
+DROP POLICY IF EXISTS "Users can update messages in their conversations" ON public.messages;
+
+-- Marks everything the other participant sent as read. Only the recipient can do this.
+CREATE OR REPLACE FUNCTION public.mark_messages_read(_conversation_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _updated integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id = _conversation_id
+    AND auth.uid() IN (creator_id, sender_id)
+  ) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  UPDATE public.messages
+  SET is_read = true,
+      read_at = now()
+  WHERE conversation_id = _conversation_id
+  AND sender_id <> auth.uid()
+  AND read_at IS NULL;
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$function$;
+
+-- Records that the caller has the conversation open; shown as "last seen" once they leave
+CREATE OR REPLACE FUNCTION public.touch_conversation(_conversation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  UPDATE public.conversations
+  SET creator_last_seen_at = CASE WHEN creator_id = auth.uid() THEN now() ELSE creator_last_seen_at END,
+      sender_last_seen_at = CASE WHEN sender_id = auth.uid() THEN now() ELSE sender_last_seen_at END
+  WHERE id = _conversation_id
+  AND auth.uid() IN (creator_id, sender_id);
+END;
+$function$;
+
+-- Presence and typing go over the private realtime channel conversation-<id>; only the
+-- conversation's two participants may join it, listen or broadcast
+CREATE POLICY "Participants can receive conversation broadcasts"
+ON realtime.messages
+FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE 'conversation-' || conversations.id::text = realtime.topic()
+    AND auth.uid() IN (conversations.creator_id, conversations.sender_id)
+  )
+);
+
+CREATE POLICY "Participants can send conversation broadcasts"
+ON realtime.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension IN ('broadcast', 'presence')
+  AND EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE 'conversation-' || conversations.id::text = realtime.topic()
+    AND auth.uid() IN (conversations.creator_id, conversations.sender_id)
+  )
+);
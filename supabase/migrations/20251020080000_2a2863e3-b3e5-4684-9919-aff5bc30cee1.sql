@@ -0,0 +1,93 @@
+-- Images and files shared in conversations. The bucket is private: objects live under
+-- <conversation_id>/ and are served to that conversation's participants through signed URLs.
+-- Images are listed by type rather than image/*, since an SVG opened from its URL runs scripts.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf', 'application/zip', 'application/json', 'text/plain', 'text/markdown', 'text/csv']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can view message attachments"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'message-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.id::text = (storage.foldername(name))[1]
+    AND (conversations.creator_id = auth.uid() OR conversations.sender_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Participants can upload message attachments"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'message-attachments' AND
+  EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE conversations.id::text = (storage.foldername(name))[1]
+    AND (conversations.creator_id = auth.uid() OR conversations.sender_id = auth.uid())
+  )
+);
+
+-- Lets a sender clean up uploads from a message that never went out
+CREATE POLICY "Users can delete their own message attachments"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'message-attachments' AND owner = auth.uid());
+
+-- [{ path, name, type, size }], stored with the message so realtime delivers both together
+ALTER TABLE public.messages
+ADD COLUMN attachments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- A message needs text or at least one attachment, and attachments must point into the
+-- message's own conversation folder
+CREATE OR REPLACE FUNCTION public.validate_message_attachments()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _attachment jsonb;
+BEGIN
+  IF jsonb_typeof(NEW.attachments) <> 'array' THEN
+    RAISE EXCEPTION 'Attachments must be a list';
+  END IF;
+
+  IF jsonb_array_length(NEW.attachments) > 5 THEN
+    RAISE EXCEPTION 'A message can have at most 5 attachments';
+  END IF;
+
+  IF btrim(NEW.content) = '' AND jsonb_array_length(NEW.attachments) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+
+  -- A missing key makes jsonb_typeof NULL, so compare with IS DISTINCT FROM
+  FOR _attachment IN SELECT jsonb_array_elements(NEW.attachments) LOOP
+    IF jsonb_typeof(_attachment->'path') IS DISTINCT FROM 'string'
+      OR jsonb_typeof(_attachment->'name') IS DISTINCT FROM 'string'
+      OR jsonb_typeof(_attachment->'type') IS DISTINCT FROM 'string'
+      OR jsonb_typeof(_attachment->'size') IS DISTINCT FROM 'number' THEN
+      RAISE EXCEPTION 'Invalid attachment';
+    END IF;
+
+    IF NOT starts_with(_attachment->>'path', NEW.conversation_id::text || '/')
+      OR (_attachment->>'size')::bigint > 5242880 THEN
+      RAISE EXCEPTION 'Invalid attachment';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER validate_message_attachments
+BEFORE INSERT OR UPDATE OF content, attachments, conversation_id ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_message_attachments();
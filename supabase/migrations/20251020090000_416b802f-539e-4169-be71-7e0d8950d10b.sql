@@ -0,0 +1,280 @@
+-- Blocking, reporting and muting in conversations
+
+-- Per-user block list. A block works both ways: neither user can start a conversation
+-- with the other or send messages in an existing one.
+CREATE TABLE public.user_blocks (
+  blocker_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Blocked users can't see who blocked them
+CREATE POLICY "Users can view their own blocks"
+ON public.user_blocks
+FOR SELECT
+USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block other users"
+ON public.user_blocks
+FOR INSERT
+WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock users"
+ON public.user_blocks
+FOR DELETE
+USING (auth.uid() = blocker_id);
+
+CREATE INDEX idx_user_blocks_blocked ON public.user_blocks(blocked_id);
+
+-- Whether the caller and _other_user_id have blocked each other in either direction.
+-- Only answers for the caller, so it doesn't reveal blocks between other users.
+CREATE OR REPLACE FUNCTION public.is_blocked_with(_other_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_blocks
+    WHERE (blocker_id = auth.uid() AND blocked_id = _other_user_id)
+    OR (blocker_id = _other_user_id AND blocked_id = auth.uid())
+  );
+$function$;
+
+DROP POLICY IF EXISTS "Users can create messages in their conversations" ON public.messages;
+
+CREATE POLICY "Users can create messages in their conversations"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+    auth.uid() = sender_id AND
+    EXISTS (
+        SELECT 1 FROM public.conversations
+        WHERE conversations.id = messages.conversation_id
+        AND (conversations.creator_id = auth.uid() OR conversations.sender_id = auth.uid())
+        AND NOT public.is_blocked_with(
+          CASE WHEN conversations.creator_id = auth.uid() THEN conversations.sender_id ELSE conversations.creator_id END
+        )
+    )
+);
+
+-- Conversations have no insert policy, so get_or_create_conversation is the only way to
+-- start one; it now refuses when either side has blocked the other
+CREATE OR REPLACE FUNCTION public.get_or_create_conversation(_project_id uuid, _other_user_id uuid)
+RETURNS public.conversations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _user_id uuid := auth.uid();
+  _project public.projects;
+  _conversation public.conversations;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _other_user_id IS NULL OR _other_user_id = _user_id THEN
+    RAISE EXCEPTION 'You cannot message yourself';
+  END IF;
+
+  SELECT * INTO _conversation
+  FROM public.conversations
+  WHERE project_id = _project_id
+  AND LEAST(creator_id, sender_id) = LEAST(_user_id, _other_user_id)
+  AND GREATEST(creator_id, sender_id) = GREATEST(_user_id, _other_user_id);
+
+  IF FOUND THEN
+    RETURN _conversation;
+  END IF;
+
+  IF public.is_blocked_with(_other_user_id) THEN
+    RAISE EXCEPTION 'You cannot message this user';
+  END IF;
+
+  SELECT * INTO _project FROM public.projects WHERE id = _project_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF _project.user_id NOT IN (_user_id, _other_user_id) THEN
+    RAISE EXCEPTION 'Conversations must include the project creator';
+  END IF;
+
+  IF _project.user_id <> _user_id AND NOT _project.allows_contact THEN
+    RAISE EXCEPTION 'This creator is not accepting messages';
+  END IF;
+
+  -- A concurrent call may have created it in the meantime
+  INSERT INTO public.conversations (project_id, creator_id, sender_id)
+  VALUES (
+    _project_id,
+    _project.user_id,
+    CASE WHEN _project.user_id = _user_id THEN _other_user_id ELSE _user_id END
+  )
+  ON CONFLICT DO NOTHING;
+
+  SELECT * INTO _conversation
+  FROM public.conversations
+  WHERE project_id = _project_id
+  AND LEAST(creator_id, sender_id) = LEAST(_user_id, _other_user_id)
+  AND GREATEST(creator_id, sender_id) = GREATEST(_user_id, _other_user_id);
+
+  RETURN _conversation;
+END;
+$function$;
+
+-- Muted conversations still collect messages but don't count towards the unread badge
+ALTER TABLE public.conversations
+ADD COLUMN creator_muted boolean NOT NULL DEFAULT false,
+ADD COLUMN sender_muted boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.set_conversation_muted(_conversation_id uuid, _muted boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  UPDATE public.conversations
+  SET creator_muted = CASE WHEN creator_id = auth.uid() THEN _muted ELSE creator_muted END,
+      sender_muted = CASE WHEN sender_id = auth.uid() THEN _muted ELSE sender_muted END
+  WHERE id = _conversation_id
+  AND auth.uid() IN (creator_id, sender_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+END;
+$function$;
+
+-- Mute flags and report excerpts are only trustworthy while neither table can be updated
+-- directly. Earlier migrations already dropped these policies; make sure they stay gone.
+DROP POLICY IF EXISTS "Users can update their own conversations" ON public.conversations;
+DROP POLICY IF EXISTS "Users can update messages in their conversations" ON public.messages;
+
+-- Reports filed by a participant. The excerpt is copied from the conversation when the
+-- report is filed, so moderators see what was said even if it's later deleted.
+CREATE TABLE public.conversation_reports (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id uuid REFERENCES public.conversations(id) ON DELETE SET NULL,
+  reporter_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reported_user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (length(btrim(reason)) > 0 AND length(reason) <= 1000),
+  excerpt jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolution_note text,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.conversation_reports ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through report_conversation/review_conversation_report
+CREATE POLICY "Reporters and moderators can view conversation reports"
+ON public.conversation_reports
+FOR SELECT
+USING (auth.uid() = reporter_id OR public.is_moderator(auth.uid()));
+
+CREATE TRIGGER update_conversation_reports_updated_at
+BEFORE UPDATE ON public.conversation_reports
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_conversation_reports_status ON public.conversation_reports(status, created_at);
+
+-- Files a report with the latest messages as the excerpt (oldest first)
+CREATE OR REPLACE FUNCTION public.report_conversation(_conversation_id uuid, _reason text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _conversation public.conversations;
+  _clean_reason text := NULLIF(btrim(_reason), '');
+  _excerpt jsonb;
+  _report_id uuid;
+BEGIN
+  SELECT * INTO _conversation
+  FROM public.conversations
+  WHERE id = _conversation_id
+  AND auth.uid() IN (creator_id, sender_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  IF _clean_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'sender_id', recent.sender_id,
+      'content', recent.content,
+      'attachments', jsonb_array_length(recent.attachments),
+      'created_at', recent.created_at
+    )
+    ORDER BY recent.created_at, recent.id
+  ), '[]'::jsonb)
+  INTO _excerpt
+  FROM (
+    SELECT id, sender_id, content, attachments, created_at
+    FROM public.messages
+    WHERE conversation_id = _conversation_id
+    ORDER BY created_at DESC, id DESC
+    LIMIT 20
+  ) recent;
+
+  INSERT INTO public.conversation_reports (conversation_id, reporter_id, reported_user_id, reason, excerpt)
+  VALUES (
+    _conversation_id,
+    auth.uid(),
+    CASE WHEN _conversation.creator_id = auth.uid() THEN _conversation.sender_id ELSE _conversation.creator_id END,
+    _clean_reason,
+    _excerpt
+  )
+  RETURNING id INTO _report_id;
+
+  RETURN _report_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.review_conversation_report(_report_id uuid, _status text, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF NOT public.is_moderator(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can review reports';
+  END IF;
+
+  IF _status NOT IN ('resolved', 'dismissed') THEN
+    RAISE EXCEPTION 'Invalid status: %', _status;
+  END IF;
+
+  UPDATE public.conversation_reports
+  SET status = _status,
+      resolution_note = NULLIF(btrim(_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _report_id
+  AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found or already reviewed';
+  END IF;
+END;
+$function$;
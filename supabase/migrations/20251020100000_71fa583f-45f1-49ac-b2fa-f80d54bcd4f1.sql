@@ -0,0 +1,118 @@
+-- Trending is kept as a decayed score in project_stats, so sorting the gallery reads one
+-- row per project instead of summing the last 14 days of reactions and views
+
+ALTER TABLE public.project_stats
+ADD COLUMN trending_score double precision NOT NULL DEFAULT 0,
+ADD COLUMN trending_at timestamp with time zone NOT NULL DEFAULT now();
+
+-- trending_score is the score as of trending_at. Each bump first decays it to now, then adds
+-- the event's points decayed from when the event happened. Points halve every 48 hours, as
+-- before; events older than 14 days have dropped below 1% of their weight.
+-- Decrements only update: when a project is deleted its stats row is already gone.
+CREATE OR REPLACE FUNCTION public.bump_project_trending(_project_id uuid, _points double precision, _event_at timestamp with time zone)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+DECLARE
+  _weight double precision := _points * power(0.5, GREATEST(extract(epoch FROM now() - _event_at), 0) / 172800.0);
+BEGIN
+  IF _points > 0 THEN
+    INSERT INTO public.project_stats AS s (project_id, trending_score, trending_at)
+    VALUES (_project_id, _weight, now())
+    ON CONFLICT (project_id) DO UPDATE
+    SET trending_score = s.trending_score * power(0.5, extract(epoch FROM now() - s.trending_at) / 172800.0) + _weight,
+        trending_at = now(),
+        updated_at = now();
+  ELSE
+    UPDATE public.project_stats s
+    SET trending_score = GREATEST(s.trending_score * power(0.5, extract(epoch FROM now() - s.trending_at) / 172800.0) + _weight, 0),
+        trending_at = now(),
+        updated_at = now()
+    WHERE s.project_id = _project_id;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.bump_project_trending(uuid, double precision, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+
+-- Reactions are worth 3 points and counted views 1. This runs alongside the counter
+-- triggers rather than inside them. Pruned views are long decayed, so deleting them
+-- doesn't touch the score.
+CREATE OR REPLACE FUNCTION public.track_project_trending()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+BEGIN
+  IF TG_TABLE_NAME = 'project_views' THEN
+    PERFORM public.bump_project_trending(NEW.project_id, 1, NEW.viewed_at);
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.bump_project_trending(OLD.project_id, -3, OLD.created_at);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.bump_project_trending(NEW.project_id, 3, NEW.created_at);
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+-- Renaming a reaction type leaves the reaction where it was, so only moves count as updates
+CREATE TRIGGER track_project_reaction_trending
+AFTER INSERT OR DELETE OR UPDATE OF project_id ON public.project_reactions
+FOR EACH ROW
+EXECUTE FUNCTION public.track_project_trending();
+
+CREATE TRIGGER track_project_view_trending
+AFTER INSERT ON public.project_views
+FOR EACH ROW
+EXECUTE FUNCTION public.track_project_trending();
+
+-- Backfill from the last 14 days of rows, as the old window computed it
+UPDATE public.project_stats s
+SET trending_score = COALESCE((
+      SELECT sum(3 * power(0.5, extract(epoch FROM now() - r.created_at) / 172800.0))
+      FROM public.project_reactions r
+      WHERE r.project_id = s.project_id AND r.created_at > now() - interval '14 days'
+    ), 0) + COALESCE((
+      SELECT sum(power(0.5, extract(epoch FROM now() - v.viewed_at) / 172800.0))
+      FROM public.project_views v
+      WHERE v.project_id = s.project_id AND v.viewed_at > now() - interval '14 days'
+    ), 0),
+    trending_at = now();
+
+-- Every figure now comes from the stats row; trending is decayed to _as_of so a paged
+-- gallery sorts against the same moment throughout
+CREATE OR REPLACE FUNCTION public.get_project_engagement(_as_of timestamp with time zone DEFAULT NULL)
+RETURNS TABLE (
+  project_id uuid,
+  heart_count bigint,
+  reaction_count bigint,
+  view_count bigint,
+  trending_score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = 'public'
+AS $function$
+  SELECT
+    p.id,
+    COALESCE((s.reaction_counts ->> 'heart')::bigint, 0),
+    COALESCE(s.reaction_count, 0),
+    COALESCE(s.view_count, 0),
+    COALESCE(
+      s.trending_score * power(0.5, extract(epoch FROM COALESCE(_as_of, now()) - s.trending_at) / 172800.0),
+      0
+    )::double precision
+  FROM public.projects p
+  LEFT JOIN public.project_stats s ON s.project_id = p.id
+  WHERE p.status = 'approved';
+$function$;
@@ -0,0 +1,44 @@
+-- Tool aggregates only need all-time totals, which the public project row already carries
+
+CREATE OR REPLACE FUNCTION public.get_tool_stats(_tool text)
+RETURNS TABLE (
+  project_count bigint,
+  creator_count bigint,
+  reaction_count bigint,
+  view_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT
+    count(*),
+    count(DISTINCT p.user_id),
+    COALESCE(sum(p.reaction_count), 0)::bigint,
+    COALESCE(sum(p.view_count), 0)::bigint
+  FROM public.projects_public p
+  WHERE _tool = ANY(p.tools);
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_tool_top_creators(_tool text, _limit integer DEFAULT 5)
+RETURNS TABLE (
+  user_id uuid,
+  creator_name text,
+  project_count bigint,
+  reaction_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT
+    p.user_id,
+    (array_agg(p.creator_name ORDER BY p.created_at DESC))[1],
+    count(*),
+    COALESCE(sum(p.reaction_count), 0)::bigint
+  FROM public.projects_public p
+  WHERE _tool = ANY(p.tools)
+  GROUP BY p.user_id
+  ORDER BY count(*) DESC, COALESCE(sum(p.reaction_count), 0) DESC
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 5), 1), 50);
+$function$;
@@ -0,0 +1,19 @@
+-- Creator totals read the counters on the public project row
+
+CREATE OR REPLACE FUNCTION public.get_creator_stats(_user_id uuid)
+RETURNS TABLE (
+  project_count bigint,
+  reaction_count bigint,
+  view_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $function$
+  SELECT
+    count(*),
+    COALESCE(sum(p.reaction_count), 0)::bigint,
+    COALESCE(sum(p.view_count), 0)::bigint
+  FROM public.projects_public p
+  WHERE p.user_id = _user_id;
+$function$;
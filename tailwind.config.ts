@@ -106,12 +106,18 @@ export default {
 					'50%': {
 						boxShadow: '0 0 40px hsl(var(--elegant-accent) / 0.2)'
 					}
+				},
+				'count-bump': {
+					'0%': { transform: 'scale(1)' },
+					'40%': { transform: 'scale(1.35)', color: '#f6d365' },
+					'100%': { transform: 'scale(1)' }
 				}
 			},
 			animation: {
 				'accordion-down': 'accordion-down 0.2s ease-out',
 				'accordion-up': 'accordion-up 0.2s ease-out',
-				'elegant-glow': 'elegant-glow 4s ease-in-out infinite'
+				'elegant-glow': 'elegant-glow 4s ease-in-out infinite',
+				'count-bump': 'count-bump 0.4s ease-out'
 			},
 			backgroundImage: {
 				'elegant-gradient': 'linear-gradient(135deg, hsl(var(--gradient-elegant-start)), hsl(var(--gradient-elegant-end)))',